@@ -0,0 +1,19 @@
+import { methodNotAllowed } from '../../src/server/http';
+import { getDefaultAgent, loadAgentCatalog } from '../../src/server/livekit/agents';
+import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+import type { AgentCatalogResponse } from '../../src/types/agent';
+
+/** Lists the agents that can be invited; the client shows them in the room creator form. */
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'GET') {
+    return methodNotAllowed();
+  }
+
+  const agents = loadAgentCatalog(env);
+  const body: AgentCatalogResponse = {
+    status: 'ok',
+    agents,
+    defaultAgent: getDefaultAgent(agents, env)?.name ?? null,
+  };
+  return Response.json(body, { headers: { 'cache-control': 'public, max-age=300' } });
+};
@@ -1,3 +1,5 @@
+import { errorResponse, methodNotAllowed } from '../../src/server/http';
+
 const ALLOWED_AUDIO_HOSTS = new Set([
   'ukr.radio',
   'www.ukr.radio',
@@ -18,24 +20,26 @@ export const onRequest: PagesFunction = async ({ request }) => {
     return new Response(null, { status: 204, headers: corsHeaders() });
   }
   if (request.method !== 'GET' && request.method !== 'HEAD') {
-    return new Response('Method not allowed', { status: 405, headers: corsHeaders() });
+    return methodNotAllowed(corsHeaders());
   }
 
   const requestUrl = new URL(request.url);
   const rawUrl = requestUrl.searchParams.get('url')?.trim();
   if (!rawUrl) {
-    return new Response('Missing url parameter', { status: 400, headers: corsHeaders() });
+    return errorResponse(400, 'bad_request', 'Missing url parameter', { headers: corsHeaders() });
   }
 
   let target: URL;
   try {
     target = new URL(rawUrl);
   } catch {
-    return new Response('Invalid url parameter', { status: 400, headers: corsHeaders() });
+    return errorResponse(400, 'bad_request', 'Invalid url parameter', { headers: corsHeaders() });
   }
 
   if (target.protocol !== 'https:' || !ALLOWED_AUDIO_HOSTS.has(target.hostname)) {
-    return new Response('Audio host is not allowed', { status: 403, headers: corsHeaders() });
+    return errorResponse(403, 'audio_host_not_allowed', 'Audio host is not allowed', {
+      headers: corsHeaders(),
+    });
   }
 
   const upstreamHeaders = new Headers();
@@ -45,10 +49,19 @@ export const onRequest: PagesFunction = async ({ request }) => {
   }
   upstreamHeaders.set('user-agent', 'meet-web-audio-proxy/1.0');
 
-  const upstream = await fetch(target.toString(), {
-    method: request.method,
-    headers: upstreamHeaders,
-  });
+  let upstream: Response;
+  try {
+    upstream = await fetch(target.toString(), {
+      method: request.method,
+      headers: upstreamHeaders,
+    });
+  } catch (error) {
+    console.warn('audio upstream fetch failed', error);
+    return errorResponse(502, 'upstream_unavailable', 'Audio host is unreachable', {
+      retryable: true,
+      headers: corsHeaders(),
+    });
+  }
 
   const headers = new Headers(corsHeaders());
   const passthrough = [
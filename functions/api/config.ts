@@ -0,0 +1,14 @@
+import { methodNotAllowed } from '../../src/server/http';
+import { buildRuntimeConfig } from '../../src/server/livekit/config';
+import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+
+/** Public runtime config the client loads at startup; holds no secrets. */
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'GET') {
+    return methodNotAllowed();
+  }
+
+  return Response.json(buildRuntimeConfig(env), {
+    headers: { 'cache-control': 'public, max-age=60' },
+  });
+};
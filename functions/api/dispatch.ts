@@ -1,22 +1,99 @@
+import {
+  errorResponse,
+  exceptionCode,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../src/server/http';
+import { authenticateParticipant } from '../../src/server/livekit/auth';
 import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+import {
+  buildAgentStatus,
+  hasAgentParticipant,
+  isActiveDispatch,
+} from '../../src/server/livekit/agent-status';
+import { loadAgentCatalog, resolveAgent } from '../../src/server/livekit/agents';
 import {
   buildDispatchContext,
   createAgentDispatch,
   deleteAgentDispatch,
   listAgentDispatches,
-  listDispatches,
   listParticipants,
   removeAgentDispatch,
 } from '../../src/server/livekit/dispatch';
 import type { AgentDispatch } from '../../src/server/livekit/dispatch';
+import {
+  readIdempotencyKey,
+  readIdempotentResult,
+  storeIdempotentResult,
+} from '../../src/server/livekit/idempotency';
+import {
+  checkDemoSession,
+  endExpiredDemoSession,
+  recordDemoSession,
+} from '../../src/server/livekit/demo-quota';
+import { withRoomLease } from '../../src/server/livekit/lease';
+import {
+  publishRoomAgentState,
+  syncRoomAgentState,
+} from '../../src/server/livekit/room-agent-state';
+import {
+  getDefaultLlmCredentials,
+  isDemoRoom,
+  isKeyOptional,
+} from '../../src/server/livekit/rooms';
+import {
+  getSecretVault,
+  issueSecretReference,
+  parseStoredCredentials,
+  readSecret,
+  storeCredentials,
+} from '../../src/server/livekit/vault';
+import type { SecretVault } from '../../src/server/livekit/vault';
+import type { RoomAgentState } from '../../src/types/agent';
+import { checkLlmCredentials, normalizeLlmCredentials } from '../../src/types/llm';
+import type { LlmCredentials, LlmProvider } from '../../src/types/llm';
 
 interface RequestPayload {
   room?: string;
   metadata?: string;
+  agentName?: string;
+  llmKeyHandle?: string;
+  llmCredentials?: unknown;
+  /** DELETE only: `pause` keeps the room's shared state at paused instead of idle. */
+  reason?: string;
+  /** PATCH only: `paused` or `active` after the agent was paused or resumed over RPC. */
+  state?: string;
 }
 
-function normalizeRoom(room?: string | null): string {
-  return room?.trim() ?? '';
+/** What the agent reads from dispatch metadata; the key itself is behind the one-time `key_ref`. */
+interface AgentCredentialsBlock {
+  provider: LlmProvider;
+  base_url: string | null;
+  key_ref: string | null;
+}
+
+interface InviteOptions {
+  agentName: string;
+  provider: LlmProvider | null;
+  credentials: LlmCredentials | null;
+  keyHandle: string | null;
+  vault: SecretVault | null;
+  rawMetadata?: string;
+  parsedMetadata: Record<string, unknown> | null;
+  changedBy: RoomAgentState['changedBy'];
+  demoEndsAt: number | null;
+}
+
+interface InviteResult {
+  status: 'ok';
+  dispatch: AgentDispatch | null;
+  active: true;
+  reused?: true;
+  agentPresent: boolean;
+  llmKeyHandle: string | null;
+  /** When the demo room's agent session runs out; null outside the demo room. */
+  demoEndsAt: number | null;
 }
 
 function parseDispatchMetadata(raw?: string): Record<string, unknown> | null {
@@ -34,40 +111,31 @@ function parseDispatchMetadata(raw?: string): Record<string, unknown> | null {
   }
 }
 
-function extractGeminiToken(metadata?: Record<string, unknown> | null): string {
-  const raw = metadata?.['gemini_api_key'];
-  if (typeof raw === 'string') {
-    return raw.trim();
-  }
-  return '';
-}
-
-function getTokenlessRooms(env: LiveKitAgentEnv) {
-  const defaultRoom = normalizeRoom(env.VITE_DEFAULT_ROOM ?? env.VOICE_AGENT_DEFAULT_ROOM ?? null);
-  const demoRoom = normalizeRoom(env.VITE_DEMO_ROOM ?? env.VOICE_AGENT_DEMO_ROOM ?? null);
-  return { defaultRoom, demoRoom };
+// `llmCredentials` in the body wins; older clients put a bare Gemini key into the metadata.
+function extractLlmCredentials(
+  payloadCredentials: unknown,
+  metadata?: Record<string, unknown> | null,
+): LlmCredentials | null {
+  return (
+    normalizeLlmCredentials(payloadCredentials) ??
+    normalizeLlmCredentials(metadata?.['gemini_api_key'])
+  );
 }
 
-function isTokenOptionalRoom(env: LiveKitAgentEnv, room?: string | null) {
-  const normalizedRoom = normalizeRoom(room);
-  if (!normalizedRoom) {
-    return false;
-  }
-
-  const { defaultRoom, demoRoom } = getTokenlessRooms(env);
-
-  if (defaultRoom && normalizedRoom === defaultRoom) {
-    return true;
+function buildDispatchMetadata(
+  rawMetadata: string | undefined,
+  metadata: Record<string, unknown> | null,
+  credentials: AgentCredentialsBlock | null,
+): string | undefined {
+  if (!metadata) {
+    return credentials ? JSON.stringify({ credentials }) : rawMetadata;
   }
-  if (demoRoom && normalizedRoom === demoRoom) {
-    return true;
+  const sanitized: Record<string, unknown> = { ...metadata };
+  delete sanitized.gemini_api_key;
+  if (credentials) {
+    sanitized.credentials = credentials;
   }
-  // Allow explicit "demo-room" fallback like the frontend
-  if (normalizedRoom === 'demo-room') {
-    return true;
-  }
-
-  return false;
+  return JSON.stringify(sanitized);
 }
 
 async function readPayload(request: Request): Promise<RequestPayload> {
@@ -77,6 +145,8 @@ async function readPayload(request: Request): Promise<RequestPayload> {
     const rawMetadata = url.searchParams.get('metadata') ?? undefined;
     return {
       room,
+      agentName: url.searchParams.get('agent') ?? undefined,
+      reason: url.searchParams.get('reason') ?? undefined,
       metadata:
         rawMetadata && rawMetadata.trim() && rawMetadata.trim() !== '{}' && rawMetadata.trim() !== 'null'
           ? rawMetadata.trim()
@@ -90,300 +160,282 @@ async function readPayload(request: Request): Promise<RequestPayload> {
   }
 
   try {
-    const payload = (await request.json()) as { room?: string; metadata?: string | null };
+    const payload = (await request.json()) as {
+      room?: string;
+      metadata?: string | null;
+      agentName?: string;
+      llmKeyHandle?: string;
+      llmCredentials?: unknown;
+      state?: string;
+    };
     const rawMetadata = typeof payload.metadata === 'string' ? payload.metadata : undefined;
     const metadata =
       rawMetadata && rawMetadata.trim() && rawMetadata.trim() !== '{}' && rawMetadata.trim() !== 'null'
         ? rawMetadata.trim()
         : undefined;
-    return { room: payload.room, metadata };
+    const agentName = typeof payload.agentName === 'string' ? payload.agentName : undefined;
+    const llmKeyHandle =
+      typeof payload.llmKeyHandle === 'string' ? payload.llmKeyHandle.trim() : undefined;
+    return {
+      room: payload.room,
+      metadata,
+      agentName,
+      llmKeyHandle,
+      llmCredentials: payload.llmCredentials,
+      state: typeof payload.state === 'string' ? payload.state : undefined,
+    };
   } catch {
     return {};
   }
 }
 
-type UnknownRecord = Record<string, unknown>;
-
-const JOB_STATUS_BY_NUMBER: Record<number, string> = {
-  0: 'JS_PENDING',
-  1: 'JS_RUNNING',
-  2: 'JS_SUCCESS',
-  3: 'JS_FAILED',
-};
-
-function normalizeStatus(value: unknown): string | null {
-  if (typeof value === 'string') {
-    return value.trim().toUpperCase() || null;
-  }
-  if (typeof value === 'number') {
-    return JOB_STATUS_BY_NUMBER[value] ?? null;
+/** Reuses the agent's active dispatch or creates one; callers serialize this per room. */
+async function inviteAgent(
+  env: Required<LiveKitAgentEnv>,
+  room: string,
+  options: InviteOptions,
+): Promise<InviteResult> {
+  const { agentName, provider, credentials, keyHandle, vault, rawMetadata, parsedMetadata } = options;
+  const { changedBy, demoEndsAt } = options;
+  const context = await buildDispatchContext(env, room);
+  const existing = await listAgentDispatches(context, room, agentName);
+  const participants = await listParticipants(context, room);
+  const agentPresent = hasAgentParticipant(participants, agentName, existing);
+
+  const activeExisting = existing.find(isActiveDispatch);
+  if (activeExisting || agentPresent) {
+    // A pending dispatch is still `requesting` for the room until its agent joins.
+    const state = agentPresent ? 'active' : 'requesting';
+    await publishRoomAgentState(env, room, { state, errorCode: null, changedBy });
+    return {
+      status: 'ok',
+      dispatch: activeExisting ?? null,
+      active: true,
+      reused: true,
+      agentPresent,
+      llmKeyHandle: keyHandle,
+      demoEndsAt,
+    };
   }
-  return null;
-}
 
-function pickTimestamp(state: UnknownRecord | null | undefined): number {
-  if (!state) {
-    return 0;
-  }
-  const candidates = [
-    state.updatedAt,
-    state.updated_at,
-    state.endedAt,
-    state.ended_at,
-    state.startedAt,
-    state.started_at,
-  ];
+  await publishRoomAgentState(env, room, { state: 'requesting', errorCode: null, changedBy });
+  // Clean up any stale dispatches for this agent before creating a new one.
+  await Promise.all(
+    existing
+      .filter((dispatch) => dispatch.id)
+      .map((dispatch) => deleteAgentDispatch(context, room, dispatch.id as string)),
+  );
 
-  for (const candidate of candidates) {
-    if (typeof candidate === 'number') {
-      return candidate;
-    }
-    if (typeof candidate === 'string') {
-      const numeric = Number(candidate);
-      if (!Number.isNaN(numeric) && Number.isFinite(numeric)) {
-        return numeric;
-      }
-      const iso = Date.parse(candidate);
-      if (!Number.isNaN(iso)) {
-        return iso;
+  const credentialsBlock: AgentCredentialsBlock | null = provider
+    ? {
+        provider,
+        base_url: credentials?.baseUrl || null,
+        key_ref: keyHandle ? await issueSecretReference(vault!, room, keyHandle) : null,
       }
-    }
-  }
-
-  return 0;
-}
-
-function getJobState(job: unknown): UnknownRecord | null {
-  if (!job || typeof job !== 'object') {
-    return null;
-  }
-  const state = (job as UnknownRecord).state;
-  if (!state || typeof state !== 'object') {
-    return null;
-  }
-  return state as UnknownRecord;
-}
-
-function getJobs(dispatch: AgentDispatch): UnknownRecord[] {
-  const jobs = dispatch.state?.jobs;
-  if (!Array.isArray(jobs)) {
-    return [];
-  }
-  return jobs.filter((job): job is UnknownRecord => Boolean(job) && typeof job === 'object');
-}
-
-function isActiveDispatch(dispatch: AgentDispatch): boolean {
-  const deleted = Boolean(dispatch.state?.deletedAt);
-  if (deleted) {
-    return false;
-  }
-  const jobs = getJobs(dispatch);
-  if (jobs.length === 0) {
-    return false;
-  }
-  return jobs.some((job) => {
-    const status = normalizeStatus(getJobState(job)?.status);
-    return status === 'JS_RUNNING' || status === 'JS_PENDING';
-  });
-}
-
-interface DispatchErrorInfo {
-  code: string;
-  message: string;
-  detail?: string | null;
-}
-
-const DEFAULT_ERROR_CODE = 'dispatch_failed';
-
-function deriveErrorCode(detail?: string | null): string {
-  if (!detail) {
-    return DEFAULT_ERROR_CODE;
-  }
-  const normalized = detail.toLowerCase();
-  if (normalized.includes('api key not valid')) {
-    return 'invalid_api_key';
-  }
-  if (normalized.includes('not entitled') || normalized.includes('permission')) {
-    return 'permission_denied';
-  }
-  return DEFAULT_ERROR_CODE;
-}
-
-function buildUserMessage(code: string, detail?: string | null): string {
-  switch (code) {
-    case 'invalid_api_key':
-      return 'Неправильний LLM токен. Перевірте налаштування і спробуйте ще раз.';
-    case 'permission_denied':
-      return 'Немає дозволу на використання цього LLM. Зверніться до адміністратора.';
-    default: {
-      const fallback = 'Не вдалося запустити ШІ помічника. Спробуйте ще раз пізніше.';
-      if (detail) {
-        return `${fallback} (${detail})`;
-      }
-      return fallback;
-    }
-  }
-}
-
-function extractDispatchError(dispatches: AgentDispatch[]): DispatchErrorInfo | null {
-  const jobs = dispatches.flatMap((dispatch) => getJobs(dispatch));
-  if (jobs.length === 0) {
-    return null;
-  }
-
-  const sorted = [...jobs].sort((a, b) => pickTimestamp(getJobState(b)) - pickTimestamp(getJobState(a)));
-  const failed = sorted.find((job) => normalizeStatus(getJobState(job)?.status) === 'JS_FAILED');
-  if (!failed) {
-    return null;
-  }
-
-  const failedTimestamp = pickTimestamp(getJobState(failed));
-  const newerActiveJobExists = sorted.some((job) => {
-    if (job === failed) {
-      return false;
-    }
-    const state = getJobState(job);
-    const status = normalizeStatus(state?.status);
-    if (status !== 'JS_RUNNING' && status !== 'JS_PENDING') {
-      return false;
-    }
-    return pickTimestamp(state) >= failedTimestamp;
-  });
-  if (newerActiveJobExists) {
-    return null;
-  }
-
-  const state = getJobState(failed);
-  const detailRaw = state?.error;
-  const detail = typeof detailRaw === 'string' && detailRaw.trim() ? detailRaw.trim() : null;
-  const code = deriveErrorCode(detail);
+    : null;
+  const metadata = buildDispatchMetadata(rawMetadata, parsedMetadata, credentialsBlock);
+  // The shared state stays `requesting`; the webhook or a status check sees the agent join.
+  const dispatch = await createAgentDispatch(context, room, agentName, metadata);
   return {
-    code,
-    message: buildUserMessage(code, detail),
-    detail,
+    status: 'ok',
+    dispatch,
+    active: true,
+    agentPresent: false,
+    llmKeyHandle: keyHandle,
+    demoEndsAt,
   };
 }
 
-function getConfiguredAgentName(env: LiveKitAgentEnv): string | undefined {
-  const candidate = env.LIVEKIT_AGENT_NAME ?? env.VOICE_AGENT_NAME;
-  return candidate && candidate.trim() ? candidate.trim() : undefined;
-}
-
 function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
   if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
     throw new Error('LiveKit environment not configured');
   }
-  if (!getConfiguredAgentName(env)) {
-    throw new Error('Missing LIVEKIT_AGENT_NAME');
+  if (loadAgentCatalog(env).length === 0) {
+    throw new Error('Missing LIVEKIT_AGENT_NAME or LIVEKIT_AGENT_CATALOG');
   }
 }
 
 export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
   const method = request.method.toUpperCase();
-  if (!['GET', 'POST', 'DELETE'].includes(method)) {
-    return new Response('Method Not Allowed', { status: 405 });
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(method)) {
+    return methodNotAllowed();
   }
 
   try {
     assertEnvConfigured(env);
   } catch (error) {
-    return new Response(error instanceof Error ? error.message : 'Environment not configured', { status: 500 });
+    return notConfigured(error);
   }
 
-  const agentName = getConfiguredAgentName(env)!;
-  const { room, metadata: rawMetadata } = await readPayload(request);
+  const payload = await readPayload(request);
+  const { room, metadata: rawMetadata, agentName: requestedAgent, llmKeyHandle } = payload;
   if (!room) {
-    return new Response('Missing required room parameter', { status: 400 });
+    return errorResponse(400, 'room_required', 'Missing required room parameter');
+  }
+
+  const agent = resolveAgent(env, requestedAgent);
+  if (!agent) {
+    return errorResponse(400, 'agent_unknown', 'Unknown agent', { detail: requestedAgent ?? null });
+  }
+  const agentName = agent.name;
+
+  let changedBy: RoomAgentState['changedBy'] = null;
+  if (method !== 'GET') {
+    // Only people already holding a token for this room may invite or remove its agent.
+    const participant = await authenticateParticipant(request, env, room);
+    if (!participant) {
+      return errorResponse(401, 'unauthorized', 'A valid room token is required');
+    }
+    changedBy = { identity: participant.identity, name: participant.name ?? null };
   }
 
   const parsedMetadata = parseDispatchMetadata(rawMetadata);
-  const geminiApiKey = extractGeminiToken(parsedMetadata);
-  const tokenOptionalRoom = isTokenOptionalRoom(env, room);
+  const llmCredentials = extractLlmCredentials(payload.llmCredentials, parsedMetadata);
 
   try {
     if (method === 'GET') {
-      const context = await buildDispatchContext(env, room);
-      const allDispatches = await listDispatches(context, room);
-      const ours = allDispatches.filter((dispatch) => dispatch.agentName === agentName);
-      const active = ours.find(isActiveDispatch) ?? null;
-      const dispatchError = extractDispatchError(ours);
-      const participants = await listParticipants(context, room);
-      const agentPresent = participants.some((participant) => {
-        const identity = (participant.identity ?? '').trim();
-        return identity === agentName || identity.startsWith('agent-');
-      });
-
-      return Response.json({
-        status: 'ok',
-        active: Boolean(active),
-        agentPresent,
-        dispatch: active,
-        total: ours.length,
-        error: dispatchError?.message ?? null,
-        errorCode: dispatchError?.code ?? null,
-        errorDetail: dispatchError?.detail ?? null,
-      });
+      if (env.ROOM_STATE && isDemoRoom(env, room)) {
+        await endExpiredDemoSession(env, env.ROOM_STATE, room, [agentName]);
+      }
+      const status = await buildAgentStatus(env, room, agentName);
+      await syncRoomAgentState(env, room, status);
+      return Response.json(status);
     }
 
     if (method === 'POST') {
-      if (!tokenOptionalRoom && !geminiApiKey) {
-        return new Response('LLM токен обов’язковий для цієї кімнати.', { status: 400 });
+      const problem = llmCredentials ? checkLlmCredentials(llmCredentials) : null;
+      if (problem) {
+        return errorResponse(400, 'llm_key_invalid', 'LLM credentials do not match the provider', {
+          detail: problem,
+        });
       }
 
-      const context = await buildDispatchContext(env, room);
-      const allDispatches = await listDispatches(context, room);
+      // A retried request gets the first attempt's answer instead of a second dispatch.
+      const idempotencyKey = readIdempotencyKey(request);
+      const kv = env.ROOM_STATE;
+      if (kv && idempotencyKey) {
+        const replay = await readIdempotentResult<InviteResult>(kv, room, idempotencyKey);
+        if (replay) {
+          return Response.json({ ...replay, reused: true });
+        }
+      }
 
-      const participants = await listParticipants(context, room);
-      const agentPresent = participants.some((participant) => {
-        const identity = (participant.identity ?? '').trim();
-        return identity === agentName || identity.startsWith('agent-');
-      });
+      const vault = getSecretVault(env);
+      if ((llmCredentials || llmKeyHandle) && !vault) {
+        return errorResponse(500, 'not_configured', 'Secret vault not configured', {
+          detail: 'Missing SECRET_VAULT binding or SECRET_VAULT_KEY',
+        });
+      }
 
-      // Remove other agents' dispatches to avoid conflicts.
-      await Promise.all(
-        allDispatches
-          .filter((dispatch) => dispatch.agentName && dispatch.agentName !== agentName && dispatch.id)
-          .map((dispatch) => deleteAgentDispatch(context, room, dispatch.id as string)),
-      );
+      // Freshly sent credentials replace the handle; the client keeps only the handle from here on.
+      let keyHandle: string | null = null;
+      let credentials = llmCredentials;
+      if (llmCredentials) {
+        keyHandle = await storeCredentials(vault!, room, llmCredentials);
+      } else if (llmKeyHandle) {
+        credentials = parseStoredCredentials(await readSecret(vault!, room, llmKeyHandle));
+        if (!credentials) {
+          return errorResponse(410, 'llm_key_expired', 'The stored LLM key has expired');
+        }
+        keyHandle = llmKeyHandle;
+      }
+      // The server's own key for the open rooms goes to the agent through the vault like any other.
+      const defaultCredentials = credentials
+        ? null
+        : getDefaultLlmCredentials(env, room, agent.requiredProvider);
+      if (defaultCredentials && vault) {
+        credentials = defaultCredentials;
+        keyHandle = await storeCredentials(vault, room, defaultCredentials);
+      } else if (defaultCredentials) {
+        console.warn('LLM_DEFAULT_TOKEN is set but the secret vault is not configured');
+      }
+      if (!credentials && !isKeyOptional(env, room, agent.requiredProvider)) {
+        return errorResponse(400, 'llm_token_required', 'An LLM token is required for this room');
+      }
 
-      const existing = await listAgentDispatches(context, room, agentName);
-      const activeExisting = existing.find(isActiveDispatch);
-      if (activeExisting) {
-        return Response.json({
-          status: 'ok',
-          dispatch: activeExisting,
-          active: true,
-          reused: true,
-          agentPresent,
+      const demoRoom = isDemoRoom(env, room);
+      if (demoRoom && !kv) {
+        return errorResponse(500, 'not_configured', 'Demo room quotas need storage', {
+          detail: 'Missing ROOM_STATE binding',
         });
       }
-
-      if (agentPresent) {
-        return Response.json({
-          status: 'ok',
-          dispatch: null,
-          active: true,
-          reused: true,
-          agentPresent: true,
+      const ip = request.headers.get('cf-connecting-ip')?.trim() || 'unknown';
+
+      const inviteOptions: Omit<InviteOptions, 'demoEndsAt'> = {
+        agentName,
+        provider: credentials?.provider ?? agent.requiredProvider,
+        credentials,
+        keyHandle,
+        vault,
+        rawMetadata,
+        parsedMetadata,
+        changedBy,
+      };
+      // One invite per room at a time, so concurrent invites find each other's dispatch.
+      const invite = async (): Promise<InviteResult | Response> => {
+        if (!demoRoom) {
+          return inviteAgent(env, room, { ...inviteOptions, demoEndsAt: null });
+        }
+        // Anyone may use the demo room, so its sessions are time-limited and counted; a session
+        // only counts once its invite went through.
+        const demo = await checkDemoSession(env, kv!, room, ip);
+        if (!demo.ok) {
+          return errorResponse(429, 'demo_quota_exceeded', 'The demo quota is used up', {
+            detail: demo.limit,
+          });
+        }
+        const invited = await inviteAgent(env, room, {
+          ...inviteOptions,
+          demoEndsAt: demo.session.endsAt,
+        });
+        if (!demo.running) {
+          await recordDemoSession(kv!, room, ip, demo.session);
+        }
+        return invited;
+      };
+      const leased = kv ? await withRoomLease(kv, room, invite) : await invite();
+      if (!leased) {
+        return errorResponse(409, 'conflict', 'Another invite for this room is in progress', {
+          retryable: true,
         });
       }
+      if (leased instanceof Response) {
+        return leased;
+      }
+      // The browser stores the handles it gets back; the server's key must not become one.
+      const usedDefault = defaultCredentials !== null && credentials === defaultCredentials;
+      const result = usedDefault ? { ...leased, llmKeyHandle: null } : leased;
+      if (kv && idempotencyKey) {
+        await storeIdempotentResult(kv, room, idempotencyKey, result);
+      }
+      return Response.json(result);
+    }
 
-      // Clean up any stale dispatches for this agent before creating a new one.
-      await Promise.all(
-        existing
-          .filter((dispatch) => dispatch.id)
-          .map((dispatch) => deleteAgentDispatch(context, room, dispatch.id as string)),
-      );
-
-      const dispatch = await createAgentDispatch(context, room, agentName, rawMetadata);
-      return Response.json({ status: 'ok', dispatch, active: true, agentPresent: false });
+    if (method === 'PATCH') {
+      // The agent stays in the room; only the state everyone sees changes.
+      if (payload.state !== 'paused' && payload.state !== 'active') {
+        return errorResponse(400, 'bad_request', 'state must be paused or active');
+      }
+      await publishRoomAgentState(env, room, { state: payload.state, errorCode: null, changedBy });
+      return Response.json({ status: 'ok', state: payload.state });
     }
 
     const result = await removeAgentDispatch(env, room, agentName);
+    await publishRoomAgentState(env, room, {
+      state: payload.reason === 'pause' ? 'paused' : 'idle',
+      errorCode: null,
+      changedBy,
+    });
     return Response.json({ status: 'ok', removed: result.removed });
   } catch (error) {
     console.error('dispatch handler failed', error);
-    const message = error instanceof Error ? error.message : 'Failed to manage dispatch';
-    return new Response(message, { status: 502 });
+    if (method === 'POST') {
+      await publishRoomAgentState(env, room, {
+        state: 'error',
+        errorCode: exceptionCode(error),
+        changedBy,
+      });
+    }
+    return exceptionResponse(error, 'Failed to manage dispatch');
   }
 };
@@ -0,0 +1,113 @@
+import { errorResponse, methodNotAllowed, notConfigured } from '../../../src/server/http';
+import { buildAgentStatus, readStoredAgentStatus } from '../../../src/server/livekit/agent-status';
+import { loadAgentCatalog, resolveAgent } from '../../../src/server/livekit/agents';
+import { endExpiredDemoSession } from '../../../src/server/livekit/demo-quota';
+import type { LiveKitAgentEnv } from '../../../src/server/livekit/env';
+import { syncRoomAgentState } from '../../../src/server/livekit/room-agent-state';
+import { isDemoRoom } from '../../../src/server/livekit/rooms';
+
+// Checks read `ROOM_STATE`; LiveKit is only asked while the room has no webhook snapshot.
+const CHECK_INTERVAL_MS = 3000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+// Streams are closed periodically; EventSource reconnects on its own.
+const MAX_STREAM_MS = 5 * 60 * 1000;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+const encoder = new TextEncoder();
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+  if (loadAgentCatalog(env).length === 0) {
+    throw new Error('Missing LIVEKIT_AGENT_NAME or LIVEKIT_AGENT_CATALOG');
+  }
+}
+
+/**
+ * Server-Sent Events twin of `GET /api/dispatch`: emits a `status` event with the same payload
+ * whenever it changes.
+ */
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async (context) => {
+  const { request, env } = context;
+  if (request.method.toUpperCase() !== 'GET') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+
+  const url = new URL(request.url);
+  const room = url.searchParams.get('room')?.trim();
+  if (!room) {
+    return errorResponse(400, 'room_required', 'Missing required room parameter');
+  }
+
+  const requestedAgent = url.searchParams.get('agent');
+  const agent = resolveAgent(env, requestedAgent);
+  if (!agent) {
+    return errorResponse(400, 'agent_unknown', 'Unknown agent', { detail: requestedAgent });
+  }
+  const agentName = agent.name;
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+
+  const stream = async () => {
+    const startedAt = Date.now();
+    let lastPayload = '';
+    let lastWriteAt = startedAt;
+    let failures = 0;
+
+    try {
+      await writer.write(encoder.encode(`retry: ${CHECK_INTERVAL_MS}\n\n`));
+      while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+        try {
+          if (env.ROOM_STATE && isDemoRoom(env, room)) {
+            await endExpiredDemoSession(env, env.ROOM_STATE, room, [agentName]);
+          }
+          const stored = await readStoredAgentStatus(env, room, agentName);
+          const status = stored?.status ?? (await buildAgentStatus(env, room, agentName));
+          const payload = JSON.stringify(status);
+          failures = 0;
+          if (payload !== lastPayload) {
+            lastPayload = payload;
+            await syncRoomAgentState(env, room, status, stored ? stored.shared : undefined);
+            lastWriteAt = Date.now();
+            await writer.write(encoder.encode(`event: status\ndata: ${payload}\n\n`));
+          }
+        } catch (error) {
+          console.warn('agent status check failed', error);
+          failures += 1;
+          if (failures >= MAX_CONSECUTIVE_FAILURES) {
+            break;
+          }
+        }
+
+        if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+          lastWriteAt = Date.now();
+          await writer.write(encoder.encode(': keepalive\n\n'));
+        }
+        await sleep(CHECK_INTERVAL_MS);
+      }
+    } catch {
+      // the client went away; writing failed
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  };
+
+  context.waitUntil(stream());
+
+  return new Response(readable, {
+    headers: {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache, no-transform',
+      connection: 'keep-alive',
+    },
+  });
+};
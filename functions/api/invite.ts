@@ -0,0 +1,85 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../src/server/http';
+import type { LiveKitEnv } from '../../src/server/livekit/env';
+import { createInvite, readInviteDetails, verifyInvite } from '../../src/server/livekit/invite';
+import { isParticipantRole } from '../../src/server/livekit/jwt';
+import type { ParticipantRole } from '../../src/server/livekit/jwt';
+
+interface InviteRequestPayload {
+  invite?: string;
+  role?: string;
+  name?: unknown;
+  locale?: unknown;
+  autoJoin?: unknown;
+}
+
+function assertEnvConfigured(env: LiveKitEnv): asserts env is Required<LiveKitEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+}
+
+async function readPayload(request: Request): Promise<InviteRequestPayload> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return {};
+  }
+  try {
+    const payload = (await request.json()) as InviteRequestPayload | null;
+    return payload && typeof payload === 'object' ? payload : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Mints another shareable invite for the room of the host `invite`, optionally with a signed name,
+ * locale and `autoJoin` for one-tap join links. New rooms and their first invites come from
+ * `/api/rooms`.
+ */
+export const onRequest: PagesFunction<LiveKitEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+
+  const payload = await readPayload(request);
+  if (payload.role !== undefined && !isParticipantRole(payload.role)) {
+    return errorResponse(400, 'bad_request', 'Unknown role');
+  }
+  const role: ParticipantRole = isParticipantRole(payload.role) ? payload.role : 'helper';
+
+  if (!payload.invite) {
+    return errorResponse(400, 'bad_request', 'Missing invite');
+  }
+
+  try {
+    const host = await verifyInvite(env, payload.invite);
+    if (!host || host.role !== 'host') {
+      return errorResponse(403, 'forbidden', 'Only the room host can create invites');
+    }
+
+    const details = readInviteDetails(payload);
+    const { invite, claims } = await createInvite(env, host.room, role, details);
+    return Response.json({
+      status: 'ok',
+      room: host.room,
+      role,
+      ...details,
+      invite,
+      expiresAt: claims.exp,
+    });
+  } catch (error) {
+    console.error('invite handler failed', error);
+    return exceptionResponse(error, 'Failed to create invite');
+  }
+};
@@ -0,0 +1,84 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../src/server/http';
+import {
+  buildDispatchContext,
+  findDispatchedAgentName,
+  listDispatches,
+} from '../../src/server/livekit/dispatch';
+import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+import { syncRoomAgentState } from '../../src/server/livekit/room-agent-state';
+import { applyWebhookEvent } from '../../src/server/livekit/room-state';
+import { verifyWebhook } from '../../src/server/livekit/webhook';
+import { readRoomAgentState } from '../../src/types/agent';
+import { isAgentParticipant } from '../../src/types/participant';
+
+function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+  if (!env.ROOM_STATE) {
+    throw new Error('Missing ROOM_STATE KV binding');
+  }
+}
+
+async function findJoinedAgentName(
+  env: Required<LiveKitAgentEnv>,
+  room: string,
+  identity?: string,
+) {
+  if (!identity) {
+    return null;
+  }
+  try {
+    const context = await buildDispatchContext(env, room);
+    return findDispatchedAgentName(await listDispatches(context, room), identity);
+  } catch (error) {
+    console.warn('agent dispatch lookup failed', error);
+    return null;
+  }
+}
+
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+
+  const body = await request.text();
+  const event = await verifyWebhook(env, request.headers.get('authorization'), body);
+  if (!event) {
+    return errorResponse(401, 'unauthorized', 'Invalid webhook signature');
+  }
+
+  try {
+    const room = event.room?.name?.trim();
+    const joinedAgent =
+      room && event.event === 'participant_joined' && event.participant
+        ? isAgentParticipant(event.participant)
+        : false;
+    // Agent identities come from their jobs, so the dispatches tell which agent joined.
+    const agentName =
+      room && joinedAgent
+        ? await findJoinedAgentName(env, room, event.participant?.identity)
+        : null;
+    await applyWebhookEvent(env.ROOM_STATE, event, agentName);
+    // The agent joining is what turns the room's `requesting` into `active`.
+    if (room && joinedAgent) {
+      const shared = readRoomAgentState(event.room?.metadata);
+      await syncRoomAgentState(env, room, { agentPresent: true, errorCode: null }, shared);
+    }
+    return Response.json({ status: 'ok' });
+  } catch (error) {
+    console.error('webhook handler failed', error);
+    return exceptionResponse(error, 'Failed to store room state');
+  }
+};
@@ -0,0 +1,72 @@
+import { errorResponse, methodNotAllowed } from '../../../src/server/http';
+import { authenticateParticipant, readBearerToken } from '../../../src/server/livekit/auth';
+import type { LiveKitEnv } from '../../../src/server/livekit/env';
+import { verifyInvite } from '../../../src/server/livekit/invite';
+import { validateLlmKey } from '../../../src/server/llm/providers';
+import type { Fetcher } from '../../../src/server/llm/providers';
+import type { LlmKeyValidateResponse } from '../../../src/types/api';
+import { checkLlmCredentials, normalizeLlmCredentials } from '../../../src/types/llm';
+
+async function readPayload(request: Request): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return {};
+  }
+  try {
+    const payload = (await request.json()) as Record<string, unknown> | null;
+    return payload && typeof payload === 'object' ? payload : {};
+  } catch {
+    return {};
+  }
+}
+
+// A room token, or the invite that leads to one, so only people with a room can use the check.
+async function hasRoomAccess(request: Request, env: LiveKitEnv, room: string) {
+  if (await authenticateParticipant(request, env, room)) {
+    return true;
+  }
+  const invite = await verifyInvite(env, readBearerToken(request));
+  return invite?.room === room;
+}
+
+/** Builds the handler around `fetcher`, so tests can answer provider calls with a local stub. */
+export function createValidateHandler(fetcher?: Fetcher): PagesFunction<LiveKitEnv> {
+  return async ({ request, env }) => {
+    if (request.method.toUpperCase() !== 'POST') {
+      return methodNotAllowed();
+    }
+
+    const payload = await readPayload(request);
+    const room = typeof payload.room === 'string' ? payload.room.trim() : '';
+    if (!room) {
+      return errorResponse(400, 'room_required', 'Missing required room parameter');
+    }
+    if (!(await hasRoomAccess(request, env, room))) {
+      return errorResponse(401, 'unauthorized', 'A valid room token or invite is required');
+    }
+
+    const credentials = normalizeLlmCredentials({ provider: 'gemini', ...payload });
+    if (!credentials) {
+      return errorResponse(400, 'bad_request', 'Missing key or unknown provider');
+    }
+
+    const respond = (result: LlmKeyValidateResponse['result']) => {
+      const body: LlmKeyValidateResponse = { status: 'ok', provider: credentials.provider, result };
+      return Response.json(body);
+    };
+
+    // Malformed keys are rejected without a round trip to the provider.
+    if (checkLlmCredentials(credentials)) {
+      return respond('invalid');
+    }
+
+    const check = await validateLlmKey(credentials, { fetcher });
+    if (check.detail) {
+      console.info(`llm key check (${credentials.provider}): ${check.result}`, check.detail);
+    }
+    // The key is never echoed back or logged.
+    return respond(check.result);
+  };
+}
+
+export const onRequest = createValidateHandler();
@@ -0,0 +1,141 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../src/server/http';
+import { authenticateParticipant } from '../../src/server/livekit/auth';
+import type { LiveKitAgentEnv, LiveKitEnv } from '../../src/server/livekit/env';
+import {
+  buildDispatchContext,
+  getParticipant,
+  mutePublishedTrack,
+  removeParticipant,
+  updateParticipant,
+} from '../../src/server/livekit/dispatch';
+import type { ParticipantAccess } from '../../src/server/livekit/jwt';
+import { revokeParticipant } from '../../src/server/livekit/revocation';
+import { normalizeRoom } from '../../src/server/livekit/rooms';
+
+type ModerationAction = 'mute' | 'remove' | 'update';
+
+interface ModerationPayload {
+  room?: unknown;
+  action?: unknown;
+  identity?: unknown;
+  trackSid?: unknown;
+  muted?: unknown;
+  permission?: unknown;
+  metadata?: unknown;
+}
+
+const ACTIONS: ModerationAction[] = ['mute', 'remove', 'update'];
+
+function assertEnvConfigured(
+  env: LiveKitAgentEnv,
+): asserts env is LiveKitAgentEnv & Required<LiveKitEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+}
+
+async function readPayload(request: Request): Promise<ModerationPayload> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return {};
+  }
+  try {
+    const payload = (await request.json()) as ModerationPayload | null;
+    return payload && typeof payload === 'object' ? payload : {};
+  } catch {
+    return {};
+  }
+}
+
+// LiveKit replaces the whole permission object, so unspecified flags are filled in explicitly.
+function readPermission(value: unknown): ParticipantAccess | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    canSubscribe: raw.canSubscribe !== false,
+    canPublish: raw.canPublish === true,
+    canPublishData: raw.canPublishData === true,
+  };
+}
+
+/**
+ * Host-only participant moderation: mute a published track, remove a participant or change their
+ * permissions and metadata. The caller is identified by their room token.
+ */
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+
+  const payload = await readPayload(request);
+  const room = normalizeRoom(typeof payload.room === 'string' ? payload.room : null);
+  const identity = typeof payload.identity === 'string' ? payload.identity.trim() : '';
+  const action = ACTIONS.find((candidate) => candidate === payload.action);
+  if (!room || !identity || !action) {
+    return errorResponse(400, 'bad_request', 'Missing room, identity or action');
+  }
+
+  const caller = await authenticateParticipant(request, env, room);
+  if (!caller) {
+    return errorResponse(401, 'unauthorized', 'A valid room token is required');
+  }
+  if (caller.role !== 'host') {
+    return errorResponse(403, 'forbidden', 'Only the room host can moderate participants');
+  }
+  if (caller.identity === identity) {
+    return errorResponse(400, 'bad_request', 'Hosts cannot moderate themselves');
+  }
+
+  try {
+    const context = await buildDispatchContext(env, room);
+
+    if (action === 'mute') {
+      const trackSid = typeof payload.trackSid === 'string' ? payload.trackSid.trim() : '';
+      if (!trackSid) {
+        return errorResponse(400, 'bad_request', 'Missing trackSid');
+      }
+      await mutePublishedTrack(context, room, identity, trackSid, payload.muted !== false);
+      return Response.json({ status: 'ok' });
+    }
+
+    if (action === 'remove') {
+      // Revoke first, so the removed participant cannot refresh or rejoin its way back in.
+      if (env.ROOM_STATE) {
+        await revokeParticipant(env.ROOM_STATE, room, identity);
+      }
+      if (!(await removeParticipant(context, room, identity))) {
+        if (!(await getParticipant(context, room, identity))) {
+          return errorResponse(404, 'not_found', 'Participant is not in the room');
+        }
+        return errorResponse(502, 'upstream_error', 'Failed to remove participant', {
+          retryable: true,
+        });
+      }
+      return Response.json({ status: 'ok' });
+    }
+
+    const permission = readPermission(payload.permission);
+    const metadata = typeof payload.metadata === 'string' ? payload.metadata : undefined;
+    if (!permission && metadata === undefined) {
+      return errorResponse(400, 'bad_request', 'Nothing to update');
+    }
+    const participant = await updateParticipant(context, room, identity, { permission, metadata });
+    return Response.json({ status: 'ok', participant });
+  } catch (error) {
+    console.error('moderation handler failed', error);
+    return exceptionResponse(error, 'Failed to moderate participant');
+  }
+};
@@ -0,0 +1,111 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../src/server/http';
+import type { LiveKitEnv } from '../../src/server/livekit/env';
+import { buildDispatchContext, createRoom } from '../../src/server/livekit/dispatch';
+import { createInvite } from '../../src/server/livekit/invite';
+import { isParticipantRole } from '../../src/server/livekit/jwt';
+import type { ParticipantRole } from '../../src/server/livekit/jwt';
+import { generateRoomName } from '../../src/server/livekit/rooms';
+import { ROOM_AUTO_AGENT_KEY } from '../../src/types/agent';
+
+interface CreateRoomPayload {
+  title?: unknown;
+  creator?: unknown;
+  locale?: unknown;
+  role?: unknown;
+  /** Invite the assistant as soon as someone joins. */
+  autoAgent?: unknown;
+}
+
+const DEFAULT_EMPTY_TIMEOUT_SECONDS = 60 * 10;
+const DEFAULT_MAX_PARTICIPANTS = 8;
+
+function assertEnvConfigured(env: LiveKitEnv): asserts env is Required<LiveKitEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+}
+
+function readPositiveInt(raw: string | undefined, fallback: number) {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function readText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const collapsed = value.replace(/\s+/g, ' ').trim();
+  return collapsed ? collapsed.slice(0, maxLength) : null;
+}
+
+async function readPayload(request: Request): Promise<CreateRoomPayload> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return {};
+  }
+  try {
+    const payload = (await request.json()) as CreateRoomPayload | null;
+    return payload && typeof payload === 'object' ? payload : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reserves a new LiveKit room before its link is shared and hands the caller a host invite plus
+ * a shareable invite for it.
+ */
+export const onRequest: PagesFunction<LiveKitEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+
+  const payload = await readPayload(request);
+  if (payload.role !== undefined && !isParticipantRole(payload.role)) {
+    return errorResponse(400, 'bad_request', 'Unknown role');
+  }
+  const role: ParticipantRole = isParticipantRole(payload.role) ? payload.role : 'helper';
+  const metadata = {
+    title: readText(payload.title, 120),
+    creator: readText(payload.creator, 64),
+    locale: payload.locale === 'en' ? 'en' : 'uk',
+    [ROOM_AUTO_AGENT_KEY]: payload.autoAgent === true,
+    createdAt: Date.now(),
+  };
+
+  try {
+    const room = generateRoomName();
+    const context = await buildDispatchContext(env, room, { roomCreate: true });
+    const created = await createRoom(context, room, {
+      emptyTimeout: readPositiveInt(env.LIVEKIT_ROOM_EMPTY_TIMEOUT_SECONDS, DEFAULT_EMPTY_TIMEOUT_SECONDS),
+      maxParticipants: readPositiveInt(env.LIVEKIT_ROOM_MAX_PARTICIPANTS, DEFAULT_MAX_PARTICIPANTS),
+      metadata: JSON.stringify(metadata),
+    });
+
+    const { invite: hostInvite } = await createInvite(env, room, 'host');
+    const { invite, claims } = await createInvite(env, room, role);
+    return Response.json({
+      status: 'ok',
+      room: created.name ?? room,
+      metadata,
+      role,
+      invite,
+      hostInvite,
+      expiresAt: claims.exp,
+    });
+  } catch (error) {
+    console.error('room creation failed', error);
+    return exceptionResponse(error, 'Failed to create room');
+  }
+};
@@ -1,40 +1,100 @@
-import type { LiveKitEnv } from '../../src/server/livekit/env';
+import { errorResponse, exceptionResponse, notConfigured } from '../../src/server/http';
+import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+import { verifyInvite } from '../../src/server/livekit/invite';
+import {
+  createDeviceId,
+  deriveParticipantIdentity,
+  normalizeDeviceId,
+  normalizeDisplayName,
+} from '../../src/server/livekit/identity';
 import { createParticipantToken } from '../../src/server/livekit/jwt';
+import type { ParticipantRole } from '../../src/server/livekit/jwt';
+import {
+  isInviteRevoked,
+  isParticipantRevoked,
+  recordParticipantInvite,
+} from '../../src/server/livekit/revocation';
+import { isTokenOptionalRoom, normalizeRoom } from '../../src/server/livekit/rooms';
 
-function assertEnvConfigured(env: LiveKitEnv): asserts env is Required<LiveKitEnv> {
+function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
   if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
     throw new Error('LiveKit environment not configured');
   }
 }
 
-export const onRequest: PagesFunction<LiveKitEnv> = async ({ request, env }) => {
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
   try {
     assertEnvConfigured(env);
   } catch (error) {
     console.error(error);
-    const message = error instanceof Error ? error.message : 'Failed to validate environment';
-    return new Response(message, { status: 500 });
+    return notConfigured(error);
   }
 
   try {
     const url = new URL(request.url);
-    const room = url.searchParams.get('room');
-    const name = url.searchParams.get('name') ?? 'user';
+    const requestedRoom = normalizeRoom(url.searchParams.get('room'));
+    const invite = url.searchParams.get('invite');
+    const deviceId = normalizeDeviceId(url.searchParams.get('device')) ?? createDeviceId();
 
-    if (!room) {
-      return new Response('Missing room parameter', { status: 400 });
+    let room: string;
+    let role: ParticipantRole;
+    // A name signed into the invite wins over the one in the URL, so it cannot be spoofed.
+    let name = normalizeDisplayName(url.searchParams.get('name'));
+    let refreshUntil: number | undefined;
+    let inviteId: string | undefined;
+    if (invite) {
+      const claims = await verifyInvite(env, invite);
+      if (!claims) {
+        return errorResponse(403, 'invite_invalid', 'Invalid or expired invite');
+      }
+      if (requestedRoom && requestedRoom !== claims.room) {
+        return errorResponse(403, 'invite_invalid', 'Invite does not match room');
+      }
+      if (claims.id && env.ROOM_STATE && (await isInviteRevoked(env.ROOM_STATE, claims.id))) {
+        return errorResponse(403, 'invite_invalid', 'A host revoked this invite');
+      }
+      inviteId = claims.id;
+      room = claims.room;
+      role = claims.role;
+      name = claims.name ?? name;
+      refreshUntil = claims.exp;
+    } else if (isTokenOptionalRoom(env, requestedRoom)) {
+      // Public default/demo rooms stay open without an invite.
+      room = requestedRoom;
+      role = 'helper';
+    } else if (!requestedRoom) {
+      return errorResponse(400, 'room_required', 'Missing room parameter');
+    } else {
+      return errorResponse(403, 'invite_required', 'A valid invite is required to join this room');
     }
 
-    const identity = name.trim();
-    const token = await createParticipantToken(env, room, identity);
+    const identity = await deriveParticipantIdentity(env, deviceId);
+    if (env.ROOM_STATE) {
+      if (await isParticipantRevoked(env.ROOM_STATE, room, identity)) {
+        return errorResponse(403, 'forbidden', 'A host removed this participant from the room');
+      }
+      if (inviteId) {
+        await recordParticipantInvite(env.ROOM_STATE, room, identity, inviteId);
+      }
+    }
+    const token = await createParticipantToken(env, room, identity, {
+      role,
+      name,
+      metadata: JSON.stringify({ displayName: name }),
+      refreshUntil,
+    });
 
     return Response.json({
       token,
       serverUrl: env.LIVEKIT_URL,
       identity,
+      name,
+      deviceId,
+      room,
+      role,
     });
   } catch (err) {
     console.error('Token generation failed', err);
-    return new Response('Failed to generate token', { status: 500 });
+    return exceptionResponse(err, 'Failed to generate token');
   }
 };
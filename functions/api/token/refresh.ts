@@ -0,0 +1,116 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../../src/server/http';
+import { readBearerToken } from '../../../src/server/livekit/auth';
+import { buildDispatchContext, getParticipant } from '../../../src/server/livekit/dispatch';
+import type { LiveKitAgentEnv, LiveKitEnv } from '../../../src/server/livekit/env';
+import { createParticipantToken, verifyParticipantToken } from '../../../src/server/livekit/jwt';
+import type { ParticipantAccess } from '../../../src/server/livekit/jwt';
+import { isParticipantRevoked } from '../../../src/server/livekit/revocation';
+
+// How long after `exp` a token may still be exchanged, e.g. after the device slept.
+const REFRESH_GRACE_SECONDS = 60 * 5;
+
+function assertEnvConfigured(
+  env: LiveKitAgentEnv,
+): asserts env is LiveKitAgentEnv & Required<LiveKitEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+}
+
+async function readToken(request: Request): Promise<string> {
+  const bearer = readBearerToken(request);
+  if (bearer) {
+    return bearer;
+  }
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return '';
+  }
+  try {
+    const payload = (await request.json()) as { token?: unknown } | null;
+    return typeof payload?.token === 'string' ? payload.token.trim() : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * What a host left the participant with, if it is still in the room; LiveKit's JSON omits false
+ * flags, so a missing one means the host took it away.
+ */
+async function readLiveAccess(
+  env: Required<LiveKitEnv>,
+  room: string,
+  identity: string,
+): Promise<ParticipantAccess | undefined> {
+  const context = await buildDispatchContext(env, room);
+  const participant = await getParticipant(context, room, identity);
+  if (!participant?.permission) {
+    return undefined;
+  }
+  return {
+    canPublish: participant.permission.canPublish ?? false,
+    canSubscribe: participant.permission.canSubscribe ?? false,
+    canPublishData: participant.permission.canPublishData ?? false,
+  };
+}
+
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    console.error(error);
+    return notConfigured(error);
+  }
+
+  const current = await readToken(request);
+  if (!current) {
+    return errorResponse(400, 'bad_request', 'Missing token');
+  }
+
+  try {
+    const participant = await verifyParticipantToken(env, current, REFRESH_GRACE_SECONDS);
+    if (!participant) {
+      return errorResponse(401, 'token_invalid', 'Invalid or expired token');
+    }
+    // Invite joins stop refreshing when the invite would have expired; join again with a new one.
+    if (participant.refreshUntil !== undefined && participant.refreshUntil <= Date.now() / 1000) {
+      return errorResponse(401, 'token_invalid', 'The invite behind this token has expired');
+    }
+    if (
+      env.ROOM_STATE &&
+      (await isParticipantRevoked(env.ROOM_STATE, participant.room, participant.identity))
+    ) {
+      return errorResponse(403, 'forbidden', 'A host removed this participant from the room');
+    }
+
+    const token = await createParticipantToken(env, participant.room, participant.identity, {
+      role: participant.role,
+      name: participant.name,
+      metadata: participant.metadata,
+      access: await readLiveAccess(env, participant.room, participant.identity),
+      refreshUntil: participant.refreshUntil,
+    });
+
+    return Response.json({
+      token,
+      serverUrl: env.LIVEKIT_URL,
+      identity: participant.identity,
+      name: participant.name ?? participant.identity,
+      room: participant.room,
+      role: participant.role,
+    });
+  } catch (err) {
+    console.error('Token refresh failed', err);
+    return exceptionResponse(err, 'Failed to refresh token');
+  }
+};
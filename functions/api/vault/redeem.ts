@@ -0,0 +1,79 @@
+import {
+  errorResponse,
+  exceptionResponse,
+  methodNotAllowed,
+  notConfigured,
+} from '../../../src/server/http';
+import { authenticateRoomAdmin } from '../../../src/server/livekit/auth';
+import type { LiveKitAgentEnv } from '../../../src/server/livekit/env';
+import {
+  getSecretVault,
+  lookupSecretReference,
+  parseStoredCredentials,
+  redeemSecretReference,
+} from '../../../src/server/livekit/vault';
+
+function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+  if (!getSecretVault(env)) {
+    throw new Error('Missing SECRET_VAULT binding or SECRET_VAULT_KEY');
+  }
+}
+
+async function readReference(request: Request): Promise<string> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json')) {
+    return '';
+  }
+  try {
+    const payload = (await request.json()) as { ref?: unknown } | null;
+    return typeof payload?.ref === 'string' ? payload.ref.trim() : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Exchanges the one-time `credentials.key_ref` from dispatch metadata for the LLM credentials. Only
+ * callers holding a `roomAdmin` token for the reference's room (i.e. the agent) may redeem it.
+ */
+export const onRequest: PagesFunction<LiveKitAgentEnv> = async ({ request, env }) => {
+  if (request.method.toUpperCase() !== 'POST') {
+    return methodNotAllowed();
+  }
+
+  try {
+    assertEnvConfigured(env);
+  } catch (error) {
+    return notConfigured(error);
+  }
+  const vault = getSecretVault(env)!;
+
+  const reference = await readReference(request);
+  if (!reference) {
+    return errorResponse(400, 'bad_request', 'Missing ref');
+  }
+
+  try {
+    const target = await lookupSecretReference(vault, reference);
+    if (!target) {
+      return errorResponse(404, 'llm_key_expired', 'Unknown or already redeemed reference');
+    }
+    if (!(await authenticateRoomAdmin(request, env, target.room))) {
+      return errorResponse(401, 'unauthorized', 'A room admin token for this room is required');
+    }
+
+    const credentials = parseStoredCredentials(
+      await redeemSecretReference(vault, reference, target),
+    );
+    if (!credentials) {
+      return errorResponse(404, 'llm_key_expired', 'The stored key has expired');
+    }
+    return Response.json({ status: 'ok', room: target.room, credentials });
+  } catch (error) {
+    console.error('vault redeem failed', error);
+    return exceptionResponse(error, 'Failed to redeem reference');
+  }
+};
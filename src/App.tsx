@@ -1,58 +1,113 @@
-import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
 import { LiveKitRoom } from '@livekit/components-react';
+import { Room } from 'livekit-client';
 import '@livekit/components-styles';
 import './style.css';
 
 import UkrainianConference from './components/UkrainianConference';
-import type { AgentControlConfig, AgentStatus } from './types/agent';
+import { useAgentSession } from './hooks/useAgentSession';
+import { useLlmKeyCheck } from './hooks/useLlmKeyCheck';
+import { useRuntimeConfig } from './hooks/useRuntimeConfig';
+import { readRoomAutoAgent } from './types/agent';
+import type {
+  AgentCatalogEntry,
+  AgentCatalogResponse,
+  AgentControlConfig,
+  LocalizedText,
+  RoomAgentState,
+} from './types/agent';
 import { detectInitialLocale, getTranslations, Locale, LOCALE_STORAGE_KEY } from './i18n';
 import type { Translations } from './i18n';
+import { API_ERROR_CODES, isApiErrorCode } from './types/api';
+import type { RuntimeConfigResponse } from './types/api';
+import {
+  checkLlmCredentials,
+  LLM_PROVIDER_IDS,
+  normalizeLlmCredentials,
+} from './types/llm';
+import type { LlmCredentials, LlmProvider } from './types/llm';
+import { setAgentPaused } from './utils/agentRpc';
+import { formatAgentErrorMessage } from './utils/agentSession';
+import type { AgentJoinPolicy, AgentStatusReport } from './utils/agentSession';
+import { ApiRequestError, readApiError } from './utils/api';
+import { hasUserActivation, speak } from './utils/speech';
+
+type ParticipantRole = 'host' | 'helper' | 'viewer';
 
 interface TokenResponse {
   token: string;
   serverUrl: string;
   identity: string;
+  name?: string;
+  deviceId?: string;
+  room?: string;
+  role?: ParticipantRole;
+}
+
+interface CreateRoomResponse {
+  room: string;
+  role: ParticipantRole;
+  invite: string;
+  hostInvite: string;
+  expiresAt: number;
+}
+
+interface PersonalInviteResponse {
+  room: string;
+  invite: string;
+  expiresAt: number;
+}
+
+/** One-tap join details a host signed into an invite; see `/api/invite`. */
+interface InviteLinkDetails {
+  name: string | null;
+  locale: Locale | null;
+  autoJoin: boolean;
+}
+
+interface StoredInvite {
+  invite: string;
+  shareInvite?: string;
 }
 
 interface AgentMetadata {
   roomName: string;
   room?: string;
   participantName: string;
-  gemini_api_key?: string;
   multi_participant?: boolean;
   greetingMode?: 'invite' | 'resume';
   language?: string;
 }
 
-const envValues = import.meta.env as Record<string, string | undefined>;
 const storedNameKey = 'meet-web-name';
+const storedDeviceIdKey = 'meet-web-device-id';
 const fallbackNameKey = 'camera-mother-name';
-const storedTokenMapKey = 'meet-web-llm-tokens';
-const configuredRoomName = ((envValues.VITE_DEFAULT_ROOM ?? envValues.VOICE_AGENT_DEFAULT_ROOM) ?? '').trim();
-const demoRoomName = ((envValues.VITE_DEMO_ROOM ?? envValues.VOICE_AGENT_DEMO_ROOM) ?? '').trim();
-const configuredAgentToken = (envValues.VITE_DEFAULT_LLM_TOKEN ?? '').trim();
-const configuredAgentIdentity = ((envValues.VITE_AGENT_IDENTITY ?? envValues.VOICE_AGENT_NAME) ?? '').trim();
-
-function randomSuffix(length = 6) {
-  const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
-  if (typeof crypto !== 'undefined' && 'getRandomValues' in crypto) {
-    const bytes = new Uint8Array(length);
-    crypto.getRandomValues(bytes);
-    return Array.from(bytes, (value) => alphabet[value % alphabet.length]).join('');
+const storedLegacyTokenMapKey = 'meet-web-llm-tokens';
+const storedInviteMapKey = 'meet-web-invites';
+const storedKeyHandleMapKey = 'meet-web-llm-key-handles';
+// Room-wide `requesting` and `error` states older than this are leftovers, not news.
+const roomAgentStateStaleMs = 60 * 1000;
+
+// Unset or invalid values keep the defaults from DEFAULT_AGENT_JOIN_POLICY.
+function readAgentJoinPolicy(config: RuntimeConfigResponse): Partial<AgentJoinPolicy> {
+  const policy: Partial<AgentJoinPolicy> = {};
+  const timeoutSeconds = Number(config.agentJoinTimeoutSeconds);
+  if (Number.isFinite(timeoutSeconds) && timeoutSeconds > 0) {
+    policy.joinDeadlineMs = timeoutSeconds * 1000;
   }
-  return Array.from({ length }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
-}
-
-function generateRoomName() {
-  return `room-${randomSuffix(6).toLowerCase()}`;
+  const attempts = Number(config.agentInviteAttempts);
+  if (Number.isInteger(attempts) && attempts >= 1) {
+    policy.maxAttempts = attempts;
+  }
+  return policy;
 }
 
-function loadStoredTokenMap(): Record<string, string> {
+function loadStoredInvites(): Record<string, StoredInvite> {
   if (typeof window === 'undefined') {
     return {};
   }
   try {
-    const raw = window.localStorage.getItem(storedTokenMapKey);
+    const raw = window.localStorage.getItem(storedInviteMapKey);
     if (!raw) {
       return {};
     }
@@ -60,67 +115,92 @@ function loadStoredTokenMap(): Record<string, string> {
     if (!parsed || typeof parsed !== 'object') {
       return {};
     }
-    const entries = Object.entries(parsed as Record<string, unknown>)
-      .filter(([room, value]) => {
-        if (typeof room !== 'string' || typeof value !== 'string') {
-          return false;
-        }
-        const trimmedRoom = room.trim();
-        const trimmedToken = value.trim();
-        if (!trimmedRoom || !trimmedToken) {
-          return false;
-        }
-        if (isTokenOptionalRoom(trimmedRoom)) {
-          return false;
-        }
-        return true;
-      })
-      .map(([room, value]) => [room.trim(), (value as string).trim()] as const);
+    const entries = Object.entries(parsed as Record<string, unknown>).filter(
+      (entry): entry is [string, StoredInvite] => {
+        const value = entry[1] as StoredInvite | null;
+        return Boolean(value) && typeof value === 'object' && typeof value?.invite === 'string';
+      },
+    );
     return Object.fromEntries(entries);
   } catch {
     return {};
   }
 }
 
-function isTokenOptionalRoom(room: string): boolean {
-  if (!room) {
-    return false;
+// Vault handles for LLM keys already sent to /api/dispatch; the keys themselves are not kept.
+function loadStoredKeyHandles(): Record<string, string> {
+  if (typeof window === 'undefined') {
+    return {};
   }
-  const normalized = room.trim();
-  if (!normalized) {
-    return false;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(storedKeyHandleMapKey) ?? '{}');
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
+    }
+    const entries = Object.entries(parsed as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '',
+    );
+    return Object.fromEntries(entries);
+  } catch {
+    return {};
   }
-  if (configuredRoomName && normalized === configuredRoomName) {
-    return true;
+}
+
+function decodeBase64urlJson(segment?: string | null): Record<string, unknown> | null {
+  if (!segment) {
+    return null;
   }
-  if (demoRoomName && normalized === demoRoomName) {
-    return true;
+  try {
+    const binary = atob(segment.replace(/-/g, '+').replace(/_/g, '/'));
+    const text = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
   }
-  return false;
 }
 
-function formatAgentErrorMessage(
-  translations: Translations,
-  code?: string | null,
-  serverMessage?: string | null,
-  detail?: string | null,
-): string | null {
-  const trimmedServerMessage = serverMessage?.trim();
-  if (trimmedServerMessage) {
-    return trimmedServerMessage;
+// Reads the role from an invite without verifying it; the server stays the source of truth.
+function readInviteRole(invite?: string | null): ParticipantRole | null {
+  const role = decodeBase64urlJson(invite?.split('.')[0])?.role;
+  return role === 'host' || role === 'helper' || role === 'viewer' ? role : null;
+}
+
+// Unverified as well: `/api/token` takes the signed name from the invite and ignores the URL's.
+function readInviteLinkDetails(invite?: string | null): InviteLinkDetails {
+  const claims = decodeBase64urlJson(invite?.split('.')[0]);
+  const name = typeof claims?.name === 'string' ? claims.name.trim() : '';
+  return {
+    name: name || null,
+    locale: claims?.locale === 'uk' || claims?.locale === 'en' ? claims.locale : null,
+    autoJoin: claims?.autoJoin === true,
+  };
+}
+
+function buildRoomLink(room: string, invite: string, agentName?: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.set('room', room);
+  url.searchParams.set('invite', invite);
+  if (agentName) {
+    url.searchParams.set('agent', agentName);
   }
+  return url.toString();
+}
 
-  switch (code) {
-    case 'invalid_api_key':
-      return translations.errors.invalidApiKey;
-    case 'permission_denied':
-      return translations.errors.permissionDenied;
-    default: {
-      if (detail && detail.trim()) {
-        return `${translations.errors.agentStartFailed} ${detail.trim()}`;
-      }
-      return translations.errors.agentStartFailed;
-    }
+function readTokenExpiry(token: string): number | null {
+  const exp = decodeBase64urlJson(token.split('.')[1])?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// Older versions kept typed LLM keys here in plain text; only vault handles are stored now.
+function clearStoredLlmKeys() {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.removeItem(storedLegacyTokenMapKey);
+  } catch {
+    // ignore persistence errors
   }
 }
 
@@ -136,36 +216,127 @@ function loadParticipantName(): string {
   return fallback ?? '';
 }
 
+function loadDeviceId(): string {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+  try {
+    return window.localStorage.getItem(storedDeviceIdKey)?.trim() ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function persistDeviceId(deviceId?: string | null) {
+  if (typeof window === 'undefined' || !deviceId) {
+    return;
+  }
+  try {
+    window.localStorage.setItem(storedDeviceIdKey, deviceId);
+  } catch {
+    // ignore persistence errors
+  }
+}
+
+interface AgentStatusPayload {
+  status?: string;
+  active?: boolean;
+  agentPresent?: boolean;
+  dispatch?: { agentName?: string | null } | null;
+  error?: string | null;
+  errorCode?: string | null;
+  errorDetail?: string | null;
+  /** When the demo room's agent session runs out. */
+  demoEndsAt?: number | null;
+}
+
+function toAgentStatusReport(
+  data: AgentStatusPayload,
+  translations: Translations,
+): AgentStatusReport {
+  const errorMessageRaw = typeof data?.error === 'string' ? data.error : null;
+  const errorCode = typeof data?.errorCode === 'string' ? data.errorCode : null;
+  const errorDetail = typeof data?.errorDetail === 'string' ? data.errorDetail : null;
+  return {
+    active: Boolean(data?.active),
+    agentPresent: Boolean(data?.agentPresent),
+    errorMessage:
+      errorMessageRaw || errorCode
+        ? formatAgentErrorMessage(translations, errorCode, errorMessageRaw, errorDetail)
+        : null,
+    errorCode,
+    errorDetail,
+  };
+}
+
 type DispatchResponse = {
   status?: string;
   active?: boolean;
   reused?: boolean;
   agentPresent?: boolean;
   dispatch?: { agentName?: string | null } | null;
+  llmKeyHandle?: string | null;
+  demoEndsAt?: number | null;
 };
 
+interface DispatchRequest {
+  agentName?: string;
+  metadata?: AgentMetadata;
+  /** Sent once; the server stores them and answers with a handle. */
+  llmCredentials?: LlmCredentials;
+  /** Vault handle from an earlier dispatch, sent instead of `llmCredentials`. */
+  llmKeyHandle?: string;
+  /** Reuse across retries of one invite so the server answers them all with a single dispatch. */
+  idempotencyKey: string;
+}
+
+async function fetchAgentCatalog(): Promise<AgentCatalogResponse> {
+  const response = await fetch('/api/agents');
+  if (!response.ok) {
+    throw new Error(`Failed to load agent catalog (${response.status}).`);
+  }
+  return (await response.json()) as AgentCatalogResponse;
+}
+
+function pickLocalizedText(text: LocalizedText, locale: Locale): string {
+  return text[locale] ?? text.en ?? Object.values(text)[0] ?? '';
+}
+
 async function ensureAgentDispatch(
   room: string,
-  metadata?: AgentMetadata,
-  translations?: Translations,
+  roomToken: string,
+  {
+    agentName,
+    metadata,
+    llmCredentials,
+    llmKeyHandle,
+    idempotencyKey,
+  }: DispatchRequest,
+  translations: Translations,
 ): Promise<DispatchResponse> {
   try {
     const response = await fetch('/api/dispatch', {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: {
+        'content-type': 'application/json',
+        Authorization: `Bearer ${roomToken}`,
+        'Idempotency-Key': idempotencyKey,
+      },
       body: JSON.stringify({
         room,
+        agentName: agentName || undefined,
+        llmCredentials,
+        llmKeyHandle: llmKeyHandle || undefined,
         metadata:
           metadata && Object.keys(metadata).length > 0
             ? JSON.stringify(metadata)
             : undefined,
       }),
     });
-    const text = await response.text();
     if (!response.ok) {
-      const fallback = translations?.errors.agentStartFailed ?? 'Failed to start the AI assistant.';
-      throw new Error(text || `${fallback} (${response.status}).`);
+      throw await readApiError(response, translations, translations.errors.agentStartFailed);
     }
+    const text = await response.text();
     if (!text.trim()) {
       return {};
     }
@@ -180,19 +351,77 @@ async function ensureAgentDispatch(
   }
 }
 
-async function requestToken(translations: Translations, room: string, name: string) {
+async function refreshToken(
+  translations: Translations,
+  current: TokenResponse,
+): Promise<TokenResponse> {
+  const response = await fetch('/api/token/refresh', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ token: current.token }),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, translations, translations.errors.tokenRefreshFailed);
+  }
+  return (await response.json()) as TokenResponse;
+}
+
+async function createPersonalInvite(
+  translations: Translations,
+  hostInvite: string,
+  details: { name: string; locale: Locale },
+): Promise<PersonalInviteResponse> {
+  const response = await fetch('/api/invite', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ invite: hostInvite, role: 'helper', ...details, autoJoin: true }),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, translations, translations.errors.personalLinkFailed);
+  }
+  return (await response.json()) as PersonalInviteResponse;
+}
+
+async function createRoom(
+  translations: Translations,
+  details: { creator?: string; locale: Locale; autoAgent?: boolean },
+): Promise<CreateRoomResponse> {
+  const response = await fetch('/api/rooms', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ...details, role: 'helper' }),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, translations, translations.errors.roomCreateFailed);
+  }
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as CreateRoomResponse;
+  } catch {
+    throw new Error(translations.errors.roomCreateFailed);
+  }
+}
+
+async function requestToken(translations: Translations, room: string, name: string, invite?: string | null) {
   const url = new URL(`/api/token`, window.location.origin);
   url.searchParams.set('room', room);
   url.searchParams.set('name', name);
+  if (invite) {
+    url.searchParams.set('invite', invite);
+  }
+  const deviceId = loadDeviceId();
+  if (deviceId) {
+    url.searchParams.set('device', deviceId);
+  }
 
   const response = await fetch(url.toString());
-  const contentType = response.headers.get('content-type') ?? '';
-  const text = await response.text();
-
   if (!response.ok) {
-    throw new Error(text || `${translations.errors.tokenRequestFailed} (${response.status}).`);
+    throw await readApiError(response, translations, translations.errors.tokenRequestFailed);
   }
 
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+
   const trimmed = text.trim();
   if (contentType.includes('text/html') || trimmed.startsWith('<!DOCTYPE')) {
     throw new Error(
@@ -231,8 +460,19 @@ export default function App() {
   const search =
     typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : new URLSearchParams();
   const initialRoom = search.get('room')?.trim() ?? '';
-
-  const [locale, setLocale] = useState<Locale>(() => detectInitialLocale());
+  const initialInvite = search.get('invite')?.trim() || loadStoredInvites()[initialRoom]?.invite || '';
+  const initialAgent = search.get('agent')?.trim() ?? '';
+  // `autoAgent=1` on a link invites the assistant on join, whatever the room was created with.
+  const autoAgentFromLink = search.get('autoAgent') === '1';
+  const inviteLink = readInviteLinkDetails(initialInvite);
+  const runtimeConfig = useRuntimeConfig();
+  const configuredRoomName = runtimeConfig.defaultRoom ?? '';
+  const demoRoomName = runtimeConfig.demoRoom ?? '';
+  const configuredAgentIdentity = runtimeConfig.agentIdentity ?? '';
+  const { defaultKeyProviders } = runtimeConfig;
+  const agentJoinPolicy = useMemo(() => readAgentJoinPolicy(runtimeConfig), [runtimeConfig]);
+
+  const [locale, setLocale] = useState<Locale>(() => inviteLink.locale ?? detectInitialLocale());
   const translations = useMemo(() => getTranslations(locale), [locale]);
 
   if (!translations) {
@@ -243,32 +483,67 @@ export default function App() {
   const languageOptions = translations.languageOptions;
 
   const [roomName, setRoomName] = useState(() => initialRoom);
-  const [isCreator, setIsCreator] = useState(() => !initialRoom);
+  const [invite, setInvite] = useState(() => initialInvite);
+  const [shareInvite, setShareInvite] = useState(() => loadStoredInvites()[initialRoom]?.shareInvite ?? '');
+  const [isCreator, setIsCreator] = useState(() => !initialRoom || readInviteRole(initialInvite) === 'host');
+  const [creatingRoom, setCreatingRoom] = useState(false);
+  const [autoAgentOnJoin, setAutoAgentOnJoin] = useState(false);
+  const [roomConnected, setRoomConnected] = useState(false);
+  const [demoEndsAt, setDemoEndsAt] = useState<number | null>(null);
+  const [sharedAgentState, setSharedAgentState] = useState<RoomAgentState | null>(null);
   const initialParticipantNameFromStorage = useMemo(() => {
     return loadParticipantName();
   }, []);
 
-  const [participantName, setParticipantName] = useState(initialParticipantNameFromStorage);
-  const [tokenByRoom, setTokenByRoom] = useState<Record<string, string>>(() => loadStoredTokenMap());
-  const [llmToken, setLlmToken] = useState(() => {
-    if (!initialRoom) {
-      return '';
-    }
-    if (configuredRoomName && initialRoom === configuredRoomName && configuredAgentToken) {
-      return configuredAgentToken;
-    }
-    const stored = loadStoredTokenMap();
-    return stored[initialRoom] ?? '';
-  });
+  const [participantName, setParticipantName] = useState(
+    () => inviteLink.name ?? initialParticipantNameFromStorage,
+  );
+  const [personalLinkName, setPersonalLinkName] = useState('');
+  const [personalLinkLocale, setPersonalLinkLocale] = useState<Locale>(locale);
+  const [personalLink, setPersonalLink] = useState('');
+  const [creatingPersonalLink, setCreatingPersonalLink] = useState(false);
+  const [keyHandleByRoom, setKeyHandleByRoom] = useState<Record<string, string>>(() =>
+    loadStoredKeyHandles(),
+  );
+  // The typed key lives in this state only; once sent, the browser keeps just its vault handle.
+  const [llmToken, setLlmToken] = useState('');
+  const [llmProvider, setLlmProvider] = useState<LlmProvider | null>(null);
+  const [llmBaseUrl, setLlmBaseUrl] = useState('');
   const [credentials, setCredentials] = useState<TokenResponse | null>(null);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [connecting, setConnecting] = useState(false);
-  const [agentStatus, setAgentStatus] = useState<AgentStatus>('idle');
-  const [agentMessage, setAgentMessage] = useState<string | null>(null);
-  const [agentIdentity, setAgentIdentity] = useState(() => configuredAgentIdentity);
-  const previousAgentStatusRef = useRef<AgentStatus>('idle');
-  const pauseRequestedRef = useRef(false);
+  const [agentIdentity, setAgentIdentity] = useState('');
+  const [agentCatalog, setAgentCatalog] = useState<AgentCatalogEntry[]>([]);
+  const [selectedAgentName, setSelectedAgentName] = useState(() => initialAgent);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAgentCatalog()
+      .then((catalog) => {
+        if (cancelled) return;
+        setAgentCatalog(catalog.agents);
+        setSelectedAgentName((current) => {
+          if (current && catalog.agents.some((agent) => agent.name === current)) {
+            return current;
+          }
+          return catalog.defaultAgent ?? '';
+        });
+      })
+      .catch((error) => {
+        console.warn('fetchAgentCatalog failed', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The config arrives after the first render; an agent seen in the room meanwhile wins.
+  useEffect(() => {
+    if (configuredAgentIdentity) {
+      setAgentIdentity((current) => current || configuredAgentIdentity);
+    }
+  }, [configuredAgentIdentity]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -319,7 +594,14 @@ export default function App() {
       }),
     );
 
+    const apiErrorMapping: Record<string, string> = {};
+    API_ERROR_CODES.forEach((code) => {
+      apiErrorMapping[ukTranslations.apiErrors[code]] = t.apiErrors[code];
+      apiErrorMapping[enTranslations.apiErrors[code]] = t.apiErrors[code];
+    });
+
     const errorMapping: Record<string, string> = {
+      ...apiErrorMapping,
       [ukTranslations.errors.nameRequired]: t.errors.nameRequired,
       [enTranslations.errors.nameRequired]: t.errors.nameRequired,
       [ukTranslations.errors.tokenRequestFailed]: t.errors.tokenRequestFailed,
@@ -328,10 +610,13 @@ export default function App() {
       [enTranslations.errors.tokenHtmlResponse]: t.errors.tokenHtmlResponse,
       [ukTranslations.errors.tokenInvalidResponse]: t.errors.tokenInvalidResponse,
       [enTranslations.errors.tokenInvalidResponse]: t.errors.tokenInvalidResponse,
+      [ukTranslations.errors.roomCreateFailed]: t.errors.roomCreateFailed,
+      [enTranslations.errors.roomCreateFailed]: t.errors.roomCreateFailed,
     };
     setError((current) => remapValue(current, errorMapping));
 
     const agentMapping: Record<string, string> = {
+      ...apiErrorMapping,
       [ukTranslations.errors.agentInviteFailed]: t.errors.agentInviteFailed,
       [enTranslations.errors.agentInviteFailed]: t.errors.agentInviteFailed,
       [ukTranslations.errors.agentStatusFailed]: t.errors.agentStatusFailed,
@@ -342,63 +627,117 @@ export default function App() {
       [enTranslations.errors.permissionDenied]: t.errors.permissionDenied,
       [ukTranslations.errors.agentStartFailed]: t.errors.agentStartFailed,
       [enTranslations.errors.agentStartFailed]: t.errors.agentStartFailed,
+      [ukTranslations.errors.agentNoWorker]: t.errors.agentNoWorker,
+      [enTranslations.errors.agentNoWorker]: t.errors.agentNoWorker,
     };
-    setAgentMessage((current) => remapValue(current, agentMapping));
+    dispatchAgentEvent({ type: 'translated', mapping: agentMapping });
   }, [t]);
 
+  useEffect(() => {
+    clearStoredLlmKeys();
+  }, []);
+
   useEffect(() => {
     if (typeof window === 'undefined') return;
     try {
-      const entries = Object.entries(tokenByRoom).filter(([room, token]) => {
-        if (!room || typeof token !== 'string' || token.trim() === '') {
-          return false;
-        }
-        const normalizedRoom = room.trim();
-        return normalizedRoom !== '' && !isTokenOptionalRoom(normalizedRoom);
-      });
-      if (entries.length === 0) {
-        window.localStorage.removeItem(storedTokenMapKey);
+      if (Object.keys(keyHandleByRoom).length === 0) {
+        window.localStorage.removeItem(storedKeyHandleMapKey);
       } else {
-        window.localStorage.setItem(storedTokenMapKey, JSON.stringify(Object.fromEntries(entries)));
+        window.localStorage.setItem(storedKeyHandleMapKey, JSON.stringify(keyHandleByRoom));
       }
     } catch {
       // ignore persistence errors
     }
-  }, [tokenByRoom]);
+  }, [keyHandleByRoom]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    if (!roomName || !invite || readInviteRole(invite) !== 'host') return;
+    try {
+      const stored = loadStoredInvites();
+      stored[roomName] = { invite, shareInvite: shareInvite || undefined };
+      window.localStorage.setItem(storedInviteMapKey, JSON.stringify(stored));
+    } catch {
+      // ignore persistence errors
+    }
+  }, [roomName, invite, shareInvite]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const url = new URL(window.location.href);
     if (!roomName) {
       url.searchParams.delete('room');
+      url.searchParams.delete('invite');
+      url.searchParams.delete('agent');
     } else {
       url.searchParams.set('room', roomName);
+      if (selectedAgentName) {
+        url.searchParams.set('agent', selectedAgentName);
+      }
     }
     window.history.replaceState(null, '', url.toString());
-  }, [roomName]);
-
-  useEffect(() => {
-    if (agentStatus !== 'error') {
-      setAgentMessage(null);
-    }
-  }, [agentStatus]);
+  }, [roomName, selectedAgentName]);
 
 
   const trimmedRoom = roomName.trim();
   const trimmedParticipantName = participantName.trim();
   const trimmedToken = llmToken.trim();
   const isConfiguredRoom = Boolean(configuredRoomName) && trimmedRoom === configuredRoomName;
-  // Allow "demo-room" explicitly for easier local testing if env var is missing
-  const isDemoRoom = (Boolean(demoRoomName) && trimmedRoom === demoRoomName) || trimmedRoom === 'demo-room';
+  const isDemoRoom = Boolean(demoRoomName) && trimmedRoom === demoRoomName;
   const isTokenlessRoom = isConfiguredRoom || isDemoRoom;
-  const effectiveAgentToken = trimmedToken || (isConfiguredRoom ? configuredAgentToken : '');
+  const llmKeyHandle = keyHandleByRoom[trimmedRoom] ?? '';
 
   const shareLink = useMemo(() => {
-    if (!roomName || typeof window === 'undefined') return '';
-    const url = new URL(window.location.href);
-    url.searchParams.set('room', roomName);
-    return url.toString();
-  }, [roomName]);
+    if (!roomName || !shareInvite || typeof window === 'undefined') return '';
+    return buildRoomLink(roomName, shareInvite, selectedAgentName);
+  }, [roomName, shareInvite, selectedAgentName]);
+  // The link's own room only: a room created here afterwards gets the regular form.
+  const oneTapJoin =
+    inviteLink.autoJoin && roomName === initialRoom && trimmedParticipantName !== '';
+
+  const selectedAgent = useMemo(
+    () => agentCatalog.find((agent) => agent.name === selectedAgentName) ?? null,
+    [agentCatalog, selectedAgentName],
+  );
+  // Until the catalog loads, assume the agent needs the caller's key as before.
+  const agentNeedsKey = selectedAgent ? Boolean(selectedAgent.requiredProvider) : true;
+  // The agent's provider is the default; people may still bring a key for another one.
+  const effectiveProvider: LlmProvider =
+    llmProvider ?? selectedAgent?.requiredProvider ?? 'gemini';
+  const typedCredentials = useMemo(
+    () =>
+      normalizeLlmCredentials({
+        provider: effectiveProvider,
+        key: trimmedToken,
+        baseUrl: llmBaseUrl,
+      }),
+    [effectiveProvider, trimmedToken, llmBaseUrl],
+  );
+  const credentialsProblem = typedCredentials ? checkLlmCredentials(typedCredentials) : null;
+  const llmKeyCheckToken = credentials?.token || invite;
+  const llmKeyCheck = useLlmKeyCheck(
+    credentialsProblem ? null : typedCredentials,
+    trimmedRoom && llmKeyCheckToken ? { room: trimmedRoom, token: llmKeyCheckToken } : null,
+  );
+  const effectiveCredentials = useMemo<LlmCredentials | null>(() => {
+    if (typedCredentials && !credentialsProblem) {
+      return typedCredentials;
+    }
+    // Without one, the server uses its own key in the open rooms.
+    return null;
+  }, [typedCredentials, credentialsProblem]);
+  const hasLlmKey = Boolean(effectiveCredentials || llmKeyHandle);
+  // Token-optional rooms only cover providers the agent holds its own key for.
+  const keyOptional =
+    !selectedAgent?.requiredProvider ||
+    (isTokenlessRoom && defaultKeyProviders.includes(selectedAgent.requiredProvider));
+  const dispatchQuery = useMemo(() => {
+    const params = new URLSearchParams({ room: trimmedRoom });
+    if (selectedAgentName) {
+      params.set('agent', selectedAgentName);
+    }
+    return params.toString();
+  }, [trimmedRoom, selectedAgentName]);
 
   const liveKitOptions = useMemo(
     () => ({
@@ -408,21 +747,131 @@ export default function App() {
     }),
     [],
   );
+  // Owned here rather than by LiveKitRoom so the agent controls can send it RPCs.
+  const liveKitRoom = useMemo(() => new Room(liveKitOptions), [liveKitOptions]);
 
-  const fetchAgentStatus = useCallback(async (): Promise<AgentStatus> => {
-    if (!trimmedRoom) {
-      setAgentStatus('idle');
-      setAgentMessage(null);
-      return 'idle';
-    }
-
-    try {
-      const response = await fetch(`/api/dispatch?room=${encodeURIComponent(trimmedRoom)}`);
+  // Removes the agent for good; invite starts a fresh session. Pausing keeps the agent instead.
+  const removeAgent = useCallback(
+    async (reason?: 'pause') => {
+      if (!credentials) {
+        return;
+      }
+      const query = reason ? `${dispatchQuery}&reason=${reason}` : dispatchQuery;
+      const response = await fetch(`/api/dispatch?${query}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${credentials.token}` },
+      });
       if (!response.ok) {
-        const message = await response.text();
-        throw new Error(message || 'Failed to fetch agent status');
+        throw await readApiError(response, t, t.errors.agentRemoveFailed);
+      }
+    },
+    [credentials, dispatchQuery, t],
+  );
+
+  // Sends one invite for useAgentSession, which owns the retries and the join deadline.
+  const requestAgentDispatch = useCallback(
+    async (mode: 'invite' | 'resume', idempotencyKey: string): Promise<DispatchResponse> => {
+      if (!credentials) {
+        throw new Error('Not connected to the room');
+      }
+      const metadata: AgentMetadata = {
+        roomName: trimmedRoom,
+        room: trimmedRoom,
+        participantName: credentials.name || trimmedParticipantName || t.participantFallbackName,
+        greetingMode: mode,
+        language:
+          selectedAgent?.languages.length && !selectedAgent.languages.includes(locale)
+            ? selectedAgent.languages[0]
+            : locale,
+      };
+
+      // A typed key wins; otherwise reuse the vault handle and send the key itself only once.
+      const sendRawKey = Boolean(
+        effectiveCredentials && (typedCredentials === effectiveCredentials || !llmKeyHandle),
+      );
+      let dispatchResult: DispatchResponse;
+      try {
+        dispatchResult = await ensureAgentDispatch(
+          trimmedRoom,
+          credentials.token,
+          {
+            agentName: selectedAgentName,
+            metadata,
+            llmCredentials: sendRawKey ? effectiveCredentials ?? undefined : undefined,
+            llmKeyHandle: sendRawKey ? undefined : llmKeyHandle,
+            idempotencyKey,
+          },
+          t,
+        );
+      } catch (error) {
+        if (error instanceof ApiRequestError && error.code === 'llm_key_expired') {
+          setKeyHandleByRoom((prev) => {
+            const next = { ...prev };
+            delete next[trimmedRoom];
+            return next;
+          });
+        }
+        throw error;
+      }
+      const returnedHandle = dispatchResult.llmKeyHandle;
+      if (returnedHandle) {
+        setKeyHandleByRoom((prev) => ({ ...prev, [trimmedRoom]: returnedHandle }));
+        if (sendRawKey) {
+          setLlmToken('');
+        }
       }
-      const data = await response.json();
+      if (typeof dispatchResult.demoEndsAt === 'number') {
+        setDemoEndsAt(dispatchResult.demoEndsAt);
+      }
+      const agentPresent = Boolean(dispatchResult.agentPresent && dispatchResult.active);
+      if (agentPresent && !dispatchResult.dispatch?.agentName && configuredAgentIdentity) {
+        setAgentIdentity((prev: string) => prev || configuredAgentIdentity);
+      }
+      return { ...dispatchResult, agentPresent };
+    },
+    [
+      credentials,
+      trimmedRoom,
+      typedCredentials,
+      effectiveCredentials,
+      llmKeyHandle,
+      trimmedParticipantName,
+      configuredAgentIdentity,
+      selectedAgent,
+      selectedAgentName,
+      locale,
+      t,
+    ],
+  );
+
+  const loadAgentStatus = useCallback(async (): Promise<AgentStatusPayload> => {
+    const response = await fetch(`/api/dispatch?${dispatchQuery}`);
+    if (!response.ok) {
+      throw await readApiError(response, t, t.errors.agentStatusFailed);
+    }
+    return (await response.json()) as AgentStatusPayload;
+  }, [dispatchQuery, t]);
+
+  const readAgentStatusReport = useCallback(
+    async () => toAgentStatusReport(await loadAgentStatus(), t),
+    [loadAgentStatus, t],
+  );
+
+  const agentSession = useAgentSession({
+    room: liveKitRoom,
+    agentIdentity,
+    translations: t,
+    requestDispatch: requestAgentDispatch,
+    readStatus: readAgentStatusReport,
+    abandonDispatch: removeAgent,
+    policy: agentJoinPolicy,
+  });
+  const { dispatch: dispatchAgentEvent, reset: resetAgentSession } = agentSession;
+  const agentStatus = agentSession.state.status;
+  const agentMessage = agentSession.message;
+
+  const applyAgentStatus = useCallback(
+    (data: AgentStatusPayload) => {
       const dispatchAgentName =
         data && typeof data === 'object' && data.dispatch && typeof data.dispatch.agentName === 'string'
           ? (data.dispatch.agentName as string).trim()
@@ -431,133 +880,217 @@ export default function App() {
         setAgentIdentity((prev: string) => (dispatchAgentName && dispatchAgentName !== prev ? dispatchAgentName : prev));
       }
 
-      const agentPresent = Boolean(data?.agentPresent);
-      const errorMessageRaw = typeof data?.error === 'string' ? data.error : null;
-      const errorCode = typeof data?.errorCode === 'string' ? data.errorCode : null;
-      const errorDetail = typeof data?.errorDetail === 'string' ? data.errorDetail : null;
-      const formattedError =
-        errorMessageRaw || errorCode ? formatAgentErrorMessage(t, errorCode, errorMessageRaw, errorDetail) : null;
-
-      if (formattedError) {
-        if (errorDetail && (!errorMessageRaw || errorDetail !== errorMessageRaw)) {
-          console.warn('Agent dispatch error detail:', errorDetail);
-        }
-        setAgentMessage(formattedError);
-        setAgentStatus('error');
-        return 'error';
-      }
-
-      if (pauseRequestedRef.current && !data.active) {
-        setAgentStatus('paused');
-        return 'paused';
+      setDemoEndsAt(typeof data.demoEndsAt === 'number' ? data.demoEndsAt : null);
+      const report = toAgentStatusReport(data, t);
+      if (report.errorDetail && (!data.error || report.errorDetail !== data.error)) {
+        console.warn('Agent dispatch error detail:', report.errorDetail);
       }
-
-      if (!data.active && !agentPresent && pauseRequestedRef.current) {
-        setAgentStatus('paused');
-        return 'paused';
-      }
-
-      if (agentPresent && !dispatchAgentName && configuredAgentIdentity) {
+      if (report.agentPresent && !dispatchAgentName && configuredAgentIdentity) {
         setAgentIdentity((prev: string) => prev || configuredAgentIdentity);
       }
+      dispatchAgentEvent({ type: 'statusReport', report, at: Date.now() });
+    },
+    [configuredAgentIdentity, dispatchAgentEvent, t],
+  );
 
-      const nextStatus: AgentStatus = data.active || agentPresent ? 'active' : 'idle';
-      setAgentStatus(nextStatus);
-      setAgentMessage(null);
+  const fetchAgentStatus = useCallback(async () => {
+    if (!trimmedRoom) {
+      resetAgentSession();
+      return;
+    }
 
-      return nextStatus;
+    try {
+      applyAgentStatus(await loadAgentStatus());
     } catch (error) {
       console.warn('fetchAgentStatus failed', error);
-      setAgentStatus('error');
-      setAgentMessage(t.errors.agentStatusFailed);
-      return 'error';
+      dispatchAgentEvent({
+        type: 'statusFailed',
+        message:
+          error instanceof ApiRequestError && error.code ? error.message : t.errors.agentStatusFailed,
+      });
     }
-  }, [trimmedRoom, configuredAgentIdentity, t]);
+  }, [trimmedRoom, applyAgentStatus, loadAgentStatus, dispatchAgentEvent, resetAgentSession, t]);
+
+  const hasCredentials = Boolean(credentials);
+  const isAgentPaused = agentStatus === 'paused';
 
+  // Swap in a fresh token shortly before the current one expires. LiveKitRoom keeps an already
+  // connected room as is and uses the latest token prop for any later (re)connect.
   useEffect(() => {
-    if (!credentials || !trimmedRoom) {
-      setAgentStatus('idle');
-      pauseRequestedRef.current = false;
+    if (!credentials || typeof window === 'undefined') {
       return;
     }
-    if (agentStatus === 'paused') {
-      return;
-    }
-    if (typeof window === 'undefined') {
+    const expiresAt = readTokenExpiry(credentials.token);
+    if (!expiresAt) {
       return;
     }
+    const lifetime = expiresAt - Date.now();
+    const margin = Math.min(60000, Math.max(lifetime * 0.2, 5000));
+    const delay = Math.max(lifetime - margin, 0);
 
     let cancelled = false;
+    let timer: number | undefined;
 
-    const poll = async () => {
-      if (cancelled) return;
-      await fetchAgentStatus();
+    const runRefresh = async () => {
+      try {
+        const next = await refreshToken(t, credentials);
+        if (cancelled) return;
+        setCredentials((prev) =>
+          prev && prev.token === credentials.token ? { ...prev, token: next.token } : prev,
+        );
+      } catch (error) {
+        console.warn('Token refresh failed', error);
+        if (!cancelled && expiresAt > Date.now()) {
+          timer = window.setTimeout(runRefresh, 10000);
+        }
+      }
     };
 
-    void poll();
-    const interval = window.setInterval(() => {
-      void fetchAgentStatus();
-    }, 5000);
+    timer = window.setTimeout(runRefresh, delay);
 
     return () => {
       cancelled = true;
-      window.clearInterval(interval);
+      window.clearTimeout(timer);
     };
-  }, [credentials, trimmedRoom, agentStatus, fetchAgentStatus, agentMessage]);
+  }, [credentials, t]);
 
   useEffect(() => {
-    const previous = previousAgentStatusRef.current;
+    if (!hasCredentials || !trimmedRoom) {
+      resetAgentSession();
+      return;
+    }
+    if (isAgentPaused) {
+      return;
+    }
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    let interval: number | undefined;
+    const startPolling = () => {
+      if (interval !== undefined) return;
+      void fetchAgentStatus();
+      interval = window.setInterval(() => {
+        void fetchAgentStatus();
+      }, 5000);
+    };
 
-    if (agentStatus !== 'paused' && pauseRequestedRef.current && agentStatus !== 'requesting' && agentStatus !== 'disconnecting') {
-      pauseRequestedRef.current = false;
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return () => window.clearInterval(interval);
     }
-    previousAgentStatusRef.current = agentStatus;
-  }, [agentStatus]);
 
-  const showLlmTokenField = isCreator || (!isConfiguredRoom && !isDemoRoom);
-  const canInviteAgent = Boolean(effectiveAgentToken) || isConfiguredRoom || isDemoRoom;
+    const source = new EventSource(`/api/dispatch/events?${dispatchQuery}`);
+    let failures = 0;
+    source.addEventListener('status', (event) => {
+      failures = 0;
+      try {
+        applyAgentStatus(JSON.parse((event as MessageEvent<string>).data) as AgentStatusPayload);
+      } catch (error) {
+        console.warn('Invalid agent status event', error);
+      }
+    });
+    source.onerror = () => {
+      failures += 1;
+      // EventSource reconnects by itself; fall back to polling when the stream is unavailable.
+      if (source.readyState === EventSource.CLOSED || failures >= 3) {
+        source.close();
+        startPolling();
+      }
+    };
+
+    return () => {
+      source.close();
+      window.clearInterval(interval);
+    };
+  }, [
+    hasCredentials,
+    trimmedRoom,
+    dispatchQuery,
+    isAgentPaused,
+    fetchAgentStatus,
+    applyAgentStatus,
+    resetAgentSession,
+  ]);
+
+  const showLlmTokenField = agentNeedsKey && (isCreator || !keyOptional);
+  const showAgentPicker = isCreator && agentCatalog.length > 1;
+  const canInviteAgent = !agentNeedsKey || hasLlmKey || (Boolean(selectedAgent) && keyOptional);
   const readyToConnect = trimmedRoom !== '' && trimmedParticipantName !== '';
 
   const connectButtonText = connecting ? t.actions.wait : isCreator ? t.actions.startBroadcast : t.actions.joinRoom;
   const inviteDisabled = !credentials || !canInviteAgent || agentStatus === 'requesting';
   const pauseDisabled = !credentials || agentStatus === 'requesting';
-  const isPausingRequest = pauseRequestedRef.current;
+  const isPausingRequest = agentSession.state.pauseRequested;
 
-  const clearAgentDispatch = useCallback(async () => {
-    if (!trimmedRoom) {
+  const clearAgentDispatch = useCallback(async (roomToken?: string | null) => {
+    if (!trimmedRoom || !roomToken) {
       return;
     }
 
     try {
-      const response = await fetch(`/api/dispatch?room=${encodeURIComponent(trimmedRoom)}`, {
+      const response = await fetch(`/api/dispatch?${dispatchQuery}`, {
         method: 'DELETE',
+        headers: { Authorization: `Bearer ${roomToken}` },
       });
       if (!response.ok && response.status !== 404) {
-        const message = await response.text();
-        throw new Error(message || 'Failed to clear existing agent dispatch.');
+        throw await readApiError(response, t, t.errors.agentDispatchClearFailed);
       }
-      setAgentStatus('idle');
-      pauseRequestedRef.current = false;
+      resetAgentSession();
     } catch (error) {
       console.warn('clearAgentDispatch failed', error);
     }
-  }, [trimmedRoom]);
+  }, [trimmedRoom, dispatchQuery, resetAgentSession, t]);
 
   const handleLocaleChange = useCallback((value: Locale) => {
     setLocale(value);
   }, []);
 
-  const handleCreateRoom = useCallback(() => {
-    const generated = generateRoomName();
-    setRoomName(generated);
-    setIsCreator(true);
-    setLlmToken('');
-    setCredentials(null);
-    setStatus(null);
+  const handleCreateRoom = useCallback(async () => {
+    setCreatingRoom(true);
     setError(null);
-    setConnecting(false);
-    setAgentMessage(null);
-  }, []);
+    try {
+      const created = await createRoom(t, {
+        creator: participantName.trim() || undefined,
+        locale,
+        autoAgent: autoAgentOnJoin,
+      });
+      setRoomName(created.room);
+      setInvite(created.hostInvite);
+      setShareInvite(created.invite);
+      setIsCreator(true);
+      setLlmToken('');
+      setLlmBaseUrl('');
+      setCredentials(null);
+      setStatus(null);
+      setConnecting(false);
+      dispatchAgentEvent({ type: 'clearError' });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : t.errors.roomCreateFailed);
+    } finally {
+      setCreatingRoom(false);
+    }
+  }, [autoAgentOnJoin, dispatchAgentEvent, locale, participantName, t]);
+
+  const handleCreatePersonalLink = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = personalLinkName.trim();
+    if (!name || !invite) {
+      return;
+    }
+    setCreatingPersonalLink(true);
+    setError(null);
+    try {
+      const created = await createPersonalInvite(t, invite, { name, locale: personalLinkLocale });
+      setPersonalLink(buildRoomLink(created.room, created.invite, selectedAgentName));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : t.errors.personalLinkFailed);
+    } finally {
+      setCreatingPersonalLink(false);
+    }
+  };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -566,34 +1099,16 @@ export default function App() {
       return;
     }
 
-    setAgentMessage(null);
-    if (agentStatus === 'error') {
-      setAgentStatus('idle');
-    }
+    dispatchAgentEvent({ type: 'clearError' });
 
     try {
       setConnecting(true);
       setError(null);
       setStatus(t.status.preparing);
-      const tokenResp = await requestToken(t, trimmedRoom, trimmedParticipantName);
+      const tokenResp = await requestToken(t, trimmedRoom, trimmedParticipantName, invite);
+      persistDeviceId(tokenResp.deviceId);
       setCredentials(tokenResp);
       setStatus(t.status.active);
-      if (trimmedRoom) {
-        setTokenByRoom((prev) => {
-          if (!isTokenlessRoom && trimmedToken) {
-            if (prev[trimmedRoom] === trimmedToken) {
-              return prev;
-            }
-            return { ...prev, [trimmedRoom]: trimmedToken };
-          }
-          if (prev[trimmedRoom]) {
-            const next = { ...prev };
-            delete next[trimmedRoom];
-            return next;
-          }
-          return prev;
-        });
-      }
     } catch (err) {
       console.error(err);
       setCredentials(null);
@@ -607,11 +1122,12 @@ export default function App() {
   const handleDisconnect = useCallback(() => {
     setCredentials(null);
     setStatus(t.status.disconnected);
-    setAgentStatus('idle');
-    setAgentMessage(null);
-    pauseRequestedRef.current = false;
-    void clearAgentDispatch();
-  }, [clearAgentDispatch, t.status.disconnected]);
+    setRoomConnected(false);
+    setDemoEndsAt(null);
+    setSharedAgentState(null);
+    resetAgentSession();
+    void clearAgentDispatch(credentials?.token);
+  }, [clearAgentDispatch, credentials?.token, resetAgentSession, t.status.disconnected]);
 
   const handleAgentPresenceChange = useCallback((present: boolean, identity?: string | null) => {
     if (present && identity) {
@@ -620,16 +1136,27 @@ export default function App() {
     if (!present && identity && agentIdentity === identity) {
       setAgentIdentity(configuredAgentIdentity);
     }
-    setAgentStatus((prev) => {
-      if (present) {
-        return 'active';
-      }
-      if (prev === 'active') {
-        return 'idle';
+    dispatchAgentEvent({ type: 'presence', present, at: Date.now() });
+  }, [agentIdentity, configuredAgentIdentity, dispatchAgentEvent]);
+
+  // Follows the agent state shared through the room metadata, so everyone sees the same control.
+  const handleRoomAgentStateChange = useCallback(
+    (shared: RoomAgentState | null) => {
+      setSharedAgentState(shared);
+      if (!shared) {
+        return;
       }
-      return prev;
-    });
-  }, [agentIdentity, configuredAgentIdentity]);
+      dispatchAgentEvent({
+        type: 'shared',
+        shared,
+        stale: Date.now() - shared.updatedAt > roomAgentStateStaleMs,
+        message: isApiErrorCode(shared.errorCode)
+          ? t.apiErrors[shared.errorCode]
+          : t.errors.agentStartFailed,
+      });
+    },
+    [dispatchAgentEvent, t],
+  );
 
   const ensureAgentActive = useCallback(
     async (mode: 'invite' | 'resume') => {
@@ -642,54 +1169,12 @@ export default function App() {
       if (mode === 'invite' && (agentStatus === 'active' || agentStatus === 'paused')) {
         return;
       }
-      if (!effectiveAgentToken && !isTokenlessRoom) {
+      if (!hasLlmKey && !keyOptional) {
         return;
       }
-
-      try {
-        pauseRequestedRef.current = false;
-        setAgentStatus('requesting');
-        setAgentMessage(null);
-
-        const metadata: AgentMetadata = {
-          roomName: trimmedRoom,
-          room: trimmedRoom,
-          participantName: trimmedParticipantName || t.participantFallbackName,
-          greetingMode: mode,
-          language: locale,
-        };
-
-        if (effectiveAgentToken) {
-          metadata.gemini_api_key = effectiveAgentToken;
-        }
-        const dispatchResult = await ensureAgentDispatch(trimmedRoom, metadata, t);
-        if (dispatchResult.agentPresent && dispatchResult.active) {
-          setAgentStatus('active');
-          if (!dispatchResult.dispatch?.agentName && configuredAgentIdentity) {
-            setAgentIdentity((prev: string) => prev || configuredAgentIdentity);
-          }
-          pauseRequestedRef.current = false;
-          return;
-        }
-
-      } catch (error) {
-        console.error('ensureAgentActive failed', error);
-        setAgentStatus('error');
-        setAgentMessage(t.errors.agentInviteFailed);
-      }
+      await agentSession.invite(mode);
     },
-    [
-      credentials,
-      trimmedRoom,
-      effectiveAgentToken,
-      isTokenlessRoom,
-      trimmedParticipantName,
-      isCreator,
-      agentStatus,
-      configuredAgentIdentity,
-      t,
-      t.errors.agentInviteFailed,
-    ],
+    [credentials, trimmedRoom, agentStatus, hasLlmKey, keyOptional, agentSession.invite],
   );
 
   const handleRequestAgent = useCallback(() => {
@@ -712,6 +1197,75 @@ export default function App() {
     void ensureAgentActive('invite');
   }, [ensureAgentActive]);
 
+  // Auto-invite: once connected, and once a click, tap or key press lets the agent be heard.
+  const [autoInviteSent, setAutoInviteSent] = useState(false);
+  const autoInviteWanted =
+    roomConnected &&
+    !autoInviteSent &&
+    agentStatus === 'idle' &&
+    canInviteAgent &&
+    (autoAgentFromLink || readRoomAutoAgent(liveKitRoom.metadata));
+  useEffect(() => {
+    if (!autoInviteWanted) {
+      return;
+    }
+    const invite = () => {
+      setAutoInviteSent(true);
+      void liveKitRoom.startAudio().catch(() => { });
+      void ensureAgentActive('invite');
+    };
+    if (hasUserActivation()) {
+      invite();
+      return;
+    }
+    window.addEventListener('pointerdown', invite, { once: true });
+    window.addEventListener('keydown', invite, { once: true });
+    return () => {
+      window.removeEventListener('pointerdown', invite);
+      window.removeEventListener('keydown', invite);
+    };
+  }, [autoInviteWanted, ensureAgentActive, liveKitRoom]);
+
+  // Says so once the auto-invited agent is in the room; the invite button may never be visited.
+  const [autoInviteAnnounced, setAutoInviteAnnounced] = useState(false);
+  useEffect(() => {
+    if (autoInviteSent && !autoInviteAnnounced && agentStatus === 'active') {
+      setAutoInviteAnnounced(true);
+      speak(t.autoAgentJoined, locale);
+    }
+  }, [autoInviteSent, autoInviteAnnounced, agentStatus, t.autoAgentJoined, locale]);
+
+  useEffect(() => {
+    if (!roomConnected) {
+      setAutoInviteSent(false);
+      setAutoInviteAnnounced(false);
+    }
+  }, [roomConnected]);
+
+  const publishAgentState = useCallback(
+    async (state: 'paused' | 'active') => {
+      if (!credentials) {
+        return;
+      }
+      try {
+        const response = await fetch('/api/dispatch', {
+          method: 'PATCH',
+          headers: {
+            'content-type': 'application/json',
+            Authorization: `Bearer ${credentials.token}`,
+          },
+          body: JSON.stringify({ room: trimmedRoom, agentName: selectedAgentName || undefined, state }),
+        });
+        if (!response.ok) {
+          throw await readApiError(response, t, t.errors.agentStateShareFailed);
+        }
+      } catch (error) {
+        console.warn('publishAgentState failed', error);
+      }
+    },
+    [credentials, trimmedRoom, selectedAgentName, t],
+  );
+
   const handleToggleAgentListening = useCallback(async () => {
     if (!credentials) {
       return;
@@ -721,6 +1275,12 @@ export default function App() {
     }
 
     if (agentStatus === 'paused') {
+      // An agent paused over RPC is still here; otherwise it was removed and has to be re-invited.
+      if (await setAgentPaused(liveKitRoom, false, agentIdentity)) {
+        dispatchAgentEvent({ type: 'resumed' });
+        void publishAgentState('active');
+        return;
+      }
       await ensureAgentActive('resume');
       return;
     }
@@ -730,23 +1290,52 @@ export default function App() {
     }
 
     try {
-      pauseRequestedRef.current = true;
-      setAgentStatus('disconnecting');
+      dispatchAgentEvent({ type: 'pauseStarted' });
 
-      const response = await fetch(`/api/dispatch?room=${encodeURIComponent(trimmedRoom)}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) {
-        const message = await response.text();
-        throw new Error(message || 'Failed to pause agent');
+      if (await setAgentPaused(liveKitRoom, true, agentIdentity)) {
+        dispatchAgentEvent({ type: 'paused' });
+        void publishAgentState('paused');
+        return;
       }
+      // Agents without the pause RPC can only be removed; resume then starts a new session.
+      await removeAgent('pause');
       void fetchAgentStatus();
     } catch (error) {
       console.error('handleToggleAgentListening failed', error);
-      pauseRequestedRef.current = false;
-      setAgentStatus('error');
+      dispatchAgentEvent({ type: 'failed', message: null });
     }
-  }, [agentStatus, credentials, ensureAgentActive, trimmedRoom]);
+  }, [
+    agentIdentity,
+    agentStatus,
+    credentials,
+    dispatchAgentEvent,
+    ensureAgentActive,
+    fetchAgentStatus,
+    liveKitRoom,
+    publishAgentState,
+    removeAgent,
+    trimmedRoom,
+  ]);
+
+  const handleStopAgent = useCallback(async () => {
+    try {
+      dispatchAgentEvent({ type: 'stopStarted' });
+      await removeAgent();
+      resetAgentSession();
+    } catch (error) {
+      console.error('handleStopAgent failed', error);
+      dispatchAgentEvent({ type: 'failed', message: null });
+    }
+  }, [dispatchAgentEvent, removeAgent, resetAgentSession]);
+
+  // Changes made here are visible already; only someone else's change needs a name.
+  const sharedChange = sharedAgentState?.changedBy;
+  const agentChangedBy =
+    sharedAgentState && sharedChange && sharedChange.identity !== credentials?.identity
+      ? t.conference.agentChangedBy[sharedAgentState.state](
+          sharedChange.name || sharedChange.identity,
+        )
+      : null;
 
   const agentControl = useMemo<AgentControlConfig | null>(() => {
     if (agentStatus === 'idle' || agentStatus === 'error') {
@@ -810,6 +1399,20 @@ export default function App() {
     t.agentControl.resumeLabel,
   ]);
 
+  const agentStopControl = useMemo<AgentControlConfig | null>(() => {
+    if (agentStatus !== 'active' && agentStatus !== 'paused') {
+      return null;
+    }
+    return {
+      label: t.agentControl.stopLabel,
+      ariaLabel: t.agentControl.stopLabel,
+      disabled: isPausingRequest && agentStatus !== 'paused',
+      onClick: handleStopAgent,
+      hint: t.agentControl.stopHint,
+      state: 'stop',
+    };
+  }, [agentStatus, handleStopAgent, isPausingRequest, t.agentControl.stopHint, t.agentControl.stopLabel]);
+
   const showInviteHint = !canInviteAgent && isCreator;
 
   return (
@@ -830,12 +1433,42 @@ export default function App() {
           {!roomName ? (
             <>
               <p>{t.createBroadcastHelp}</p>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={autoAgentOnJoin}
+                  onChange={(event) => setAutoAgentOnJoin(event.target.checked)}
+                  aria-describedby="auto-agent-hint"
+                />
+                {t.autoAgentLabel}
+              </label>
+              <small id="auto-agent-hint" className="hint">
+                {t.autoAgentHint}
+              </small>
               <div className="actions">
-                <button type="button" onClick={handleCreateRoom} aria-label={t.actions.createRoom}>
-                  {t.actions.createRoom}
+                <button
+                  type="button"
+                  onClick={() => void handleCreateRoom()}
+                  disabled={creatingRoom}
+                  aria-label={creatingRoom ? t.actions.wait : t.actions.createRoom}
+                >
+                  {creatingRoom ? t.actions.wait : t.actions.createRoom}
                 </button>
               </div>
             </>
+          ) : oneTapJoin ? (
+            <form className="one-tap" onSubmit={handleSubmit}>
+              <p>{t.oneTapHelp}</p>
+              <button
+                type="submit"
+                className="one-tap-start"
+                autoFocus
+                disabled={connecting}
+                aria-label={connecting ? t.actions.wait : t.actions.start}
+              >
+                {connecting ? t.actions.wait : t.actions.start}
+              </button>
+            </form>
           ) : (
             <>
               <p>
@@ -856,8 +1489,48 @@ export default function App() {
                 </div>
               )}
 
+              {isCreator && shareLink && (
+                <form className="share-block" onSubmit={handleCreatePersonalLink}>
+                  <span>{t.personalLinkLabel}</span>
+                  <small className="hint">{t.personalLinkHint}</small>
+                  <label>
+                    {t.nameLabel}
+                    <input
+                      type="text"
+                      value={personalLinkName}
+                      onChange={(event) => setPersonalLinkName(event.target.value)}
+                    />
+                  </label>
+                  <label>
+                    {t.languageLabel}
+                    <select
+                      value={personalLinkLocale}
+                      onChange={(event) => setPersonalLinkLocale(event.target.value as Locale)}
+                    >
+                      {languageOptions.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    type="submit"
+                    className="secondary"
+                    disabled={creatingPersonalLink || !personalLinkName.trim()}
+                  >
+                    {creatingPersonalLink ? t.actions.wait : t.actions.createPersonalLink}
+                  </button>
+                  {personalLink && (
+                    <div className="share-link" aria-live="polite">
+                      {personalLink}
+                    </div>
+                  )}
+                </form>
+              )}
+
               <form className="inputs" onSubmit={handleSubmit}>
-                {!initialParticipantNameFromStorage && (
+                {!initialParticipantNameFromStorage && !inviteLink.name && (
                   <label>
                     {t.nameLabel}
                     <input
@@ -869,14 +1542,62 @@ export default function App() {
                   </label>
                 )}
 
+                {showAgentPicker && (
+                  <>
+                    <label>
+                      {t.agentLabel}
+                      <select
+                        value={selectedAgentName}
+                        onChange={(event) => setSelectedAgentName(event.target.value)}
+                        aria-describedby="agent-description"
+                      >
+                        {agentCatalog.map((agent) => (
+                          <option key={agent.name} value={agent.name}>
+                            {pickLocalizedText(agent.label, locale)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <small id="agent-description" className="hint">
+                      {selectedAgent ? pickLocalizedText(selectedAgent.description, locale) : ''}
+                    </small>
+                  </>
+                )}
+
                 {showLlmTokenField && (
                   <>
+                    <label>
+                      {t.llmProviderLabel}
+                      <select
+                        value={effectiveProvider}
+                        onChange={(event) => setLlmProvider(event.target.value as LlmProvider)}
+                      >
+                        {LLM_PROVIDER_IDS.map((provider) => (
+                          <option key={provider} value={provider}>
+                            {t.llmProviders[provider]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {effectiveProvider === 'self-hosted' && (
+                      <label>
+                        {t.llmBaseUrlLabel}
+                        <input
+                          type="url"
+                          value={llmBaseUrl}
+                          placeholder={t.llmBaseUrlPlaceholder}
+                          onChange={(event) => setLlmBaseUrl(event.target.value)}
+                        />
+                      </label>
+                    )}
                     <label>
                       {t.llmTokenLabel}
                       <input
                         type="text"
                         value={llmToken}
-                        placeholder={t.llmTokenPlaceholder}
+                        placeholder={
+                          llmKeyHandle ? t.llmTokenSavedPlaceholder : t.llmTokenPlaceholder
+                        }
                         onChange={(event) => setLlmToken(event.target.value)}
                         aria-describedby="llm-token-hint"
                       />
@@ -884,6 +1605,19 @@ export default function App() {
                     <small id="llm-token-hint" className="hint">
                       {t.llmTokenHint}
                     </small>
+                    {credentialsProblem && (
+                      <small className="llm-key-status llm-key-status--invalid" aria-live="polite">
+                        {t.llmCredentialsProblems[credentialsProblem]}
+                      </small>
+                    )}
+                    {llmKeyCheck !== 'idle' && (
+                      <small
+                        className={`llm-key-status llm-key-status--${llmKeyCheck}`}
+                        aria-live="polite"
+                      >
+                        {t.llmKeyCheck[llmKeyCheck]}
+                      </small>
+                    )}
                   </>
                 )}
 
@@ -909,7 +1643,8 @@ export default function App() {
             connect
             audio
             video={false}
-            options={liveKitOptions}
+            room={liveKitRoom}
+            onConnected={() => setRoomConnected(true)}
             onDisconnected={handleDisconnect}
             style={{ height: '100%', width: '100%' }}
           >
@@ -918,20 +1653,27 @@ export default function App() {
                 setCredentials(null);
                 setStatus(null);
                 setError(null);
-                setAgentStatus('idle');
-                setAgentMessage(null);
+                setRoomConnected(false);
+                resetAgentSession();
               }}
               agentControl={agentControl}
+              agentStopControl={agentStopControl}
               showInviteHint={!credentials && !connecting && !error && !status}
               roomName={roomName}
               agentMessage={agentMessage}
               agentIdentity={agentIdentity}
               onAgentPresenceChange={handleAgentPresenceChange}
+              onRoomAgentStateChange={handleRoomAgentStateChange}
               agentStatus={agentStatus}
-              isDemoRoom={Boolean(demoRoomName && roomName === demoRoomName)}
+              agentSilent={agentSession.silent}
+              agentChangedBy={agentChangedBy}
+              isDemoRoom={isDemoRoom}
+              demoEndsAt={isDemoRoom ? demoEndsAt : null}
               translations={translations}
               locale={locale}
               onLocaleChange={handleLocaleChange}
+              isHost={credentials.role === 'host'}
+              roomToken={credentials.token}
             />
           </LiveKitRoom>
         </section>
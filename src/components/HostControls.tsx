@@ -0,0 +1,143 @@
+import { useCallback, useId, useState } from 'react';
+import { Track } from 'livekit-client';
+import type { Participant } from 'livekit-client';
+import type { Translations } from '../i18n';
+import { ApiRequestError, readApiError } from '../utils/api';
+
+type ModerationRequest =
+  | { action: 'mute'; identity: string; trackSid: string }
+  | { action: 'remove'; identity: string }
+  | { action: 'update'; identity: string; permission: { canPublish: boolean; canPublishData: boolean; canSubscribe: boolean } };
+
+async function moderateParticipant(
+  room: string,
+  roomToken: string,
+  request: ModerationRequest,
+  translations: Translations,
+) {
+  const response = await fetch('/api/moderation', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', Authorization: `Bearer ${roomToken}` },
+    body: JSON.stringify({ room, ...request }),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, translations, translations.moderation.failed);
+  }
+}
+
+interface HostControlsProps {
+  roomName: string;
+  roomToken: string;
+  participants: Participant[];
+  getDisplayName: (participant: Participant) => string;
+  translations: Translations;
+}
+
+export function HostControls({ roomName, roomToken, participants, getDisplayName, translations }: HostControlsProps) {
+  const t = translations.moderation;
+  const panelId = useId();
+  const [open, setOpen] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(
+    async (request: ModerationRequest) => {
+      setPending(request.identity);
+      setError(null);
+      try {
+        await moderateParticipant(roomName, roomToken, request, translations);
+      } catch (err) {
+        console.warn('moderateParticipant failed', err);
+        setError(err instanceof ApiRequestError && err.code ? err.message : t.failed);
+      } finally {
+        setPending(null);
+      }
+    },
+    [roomName, roomToken, translations, t.failed],
+  );
+
+  return (
+    <div className="host-controls">
+      <button
+        type="button"
+        className="ua-button host-controls__toggle"
+        aria-expanded={open}
+        aria-controls={panelId}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <span className="ua-button-label">{open ? t.closeLabel : t.openLabel}</span>
+      </button>
+
+      {open && (
+        <div id={panelId} className="host-controls__panel" role="region" aria-label={t.title}>
+          <h3 className="host-controls__title">{t.title}</h3>
+          {participants.length === 0 ? (
+            <p className="host-controls__empty">{t.empty}</p>
+          ) : (
+            <ul className="host-controls__list">
+              {participants.map((participant) => {
+                const name = getDisplayName(participant) || translations.participantFallbackName;
+                const microphone = participant.getTrackPublication(Track.Source.Microphone);
+                const canSpeak = participant.permissions?.canPublish !== false;
+                const busy = pending === participant.identity;
+                return (
+                  <li key={participant.identity} className="host-controls__item">
+                    <span className="host-controls__name">{name}</span>
+                    <div className="host-controls__actions">
+                      {microphone?.trackSid && !microphone.isMuted && (
+                        <button
+                          type="button"
+                          disabled={busy}
+                          aria-label={`${t.mute}: ${name}`}
+                          onClick={() =>
+                            void run({ action: 'mute', identity: participant.identity, trackSid: microphone.trackSid })
+                          }
+                        >
+                          {t.mute}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        disabled={busy}
+                        aria-label={`${canSpeak ? t.revokeSpeaking : t.allowSpeaking}: ${name}`}
+                        onClick={() =>
+                          void run({
+                            action: 'update',
+                            identity: participant.identity,
+                            permission: { canPublish: !canSpeak, canPublishData: !canSpeak, canSubscribe: true },
+                          })
+                        }
+                      >
+                        {canSpeak ? t.revokeSpeaking : t.allowSpeaking}
+                      </button>
+                      <button
+                        type="button"
+                        className="danger"
+                        disabled={busy}
+                        aria-label={`${t.remove}: ${name}`}
+                        onClick={() => {
+                          if (window.confirm(`${t.removeConfirm} ${name}?`)) {
+                            void run({ action: 'remove', identity: participant.identity });
+                          }
+                        }}
+                      >
+                        {t.remove}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {error && (
+            <p className="host-controls__error" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HostControls;
@@ -5,17 +5,45 @@ import {
   RoomAudioRenderer,
   useParticipants,
   useRoomContext,
+  useRoomInfo,
   useTracks,
 } from '@livekit/components-react';
-import { RoomEvent, Track } from 'livekit-client';
+import { RemoteParticipant, RoomEvent, Track } from 'livekit-client';
 import type { Participant } from 'livekit-client';
 import { AccessibleTrackToggle } from './AccessibleTrackToggle';
 import { CameraSwitchButton } from './CameraSwitchButton';
 import BrowserRadioPlayer from './BrowserRadioPlayer';
-import type { AgentControlConfig, AgentStatus } from '../types/agent';
+import HostControls from './HostControls';
+import { readRoomAgentState } from '../types/agent';
+import type { AgentControlConfig, AgentStatus, RoomAgentState } from '../types/agent';
+import { isAgentParticipant } from '../types/participant';
+import type { AgentActivity } from '../types/participant';
+import { useAgentActivity } from '../hooks/useAgentActivity';
 import { useConnectionSounds } from '../hooks/useConnectionSounds';
+import { useDemoCountdown } from '../hooks/useDemoCountdown';
 import type { Translations } from '../i18n';
 
+// Minutes before the end of a demo session at which screen readers hear how much is left.
+const DEMO_ANNOUNCE_MINUTES = [1, 2, 5];
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds < 10 ? '0' : ''}${seconds}`;
+}
+
+// Changes only when a threshold is crossed, so the live region speaks once per threshold.
+function describeDemoRemaining(translations: Translations, remainingMs: number | null) {
+  if (remainingMs === null) {
+    return '';
+  }
+  if (remainingMs <= 0) {
+    return translations.conference.demoEnded;
+  }
+  const minutes = DEMO_ANNOUNCE_MINUTES.find((limit) => remainingMs <= limit * 60 * 1000);
+  return minutes ? translations.conference.demoMinutesLeft(minutes) : '';
+}
+
 // Custom hook since it's not exported in this version of components-react
 function useAudioLevel(participant: Participant | null) {
   const [level, setLevel] = useState(0);
@@ -49,6 +77,22 @@ function useAudioLevel(participant: Participant | null) {
   return level;
 }
 
+function getDisplayName(participant: Participant): string {
+  const name = participant.name?.trim();
+  if (name) {
+    return name;
+  }
+  try {
+    const parsed = participant.metadata ? JSON.parse(participant.metadata) : null;
+    if (parsed && typeof parsed.displayName === 'string' && parsed.displayName.trim()) {
+      return parsed.displayName.trim();
+    }
+  } catch {
+    // metadata is not JSON
+  }
+  return '';
+}
+
 // --- Icons ---
 
 const MicOnIcon = () => (
@@ -106,6 +150,12 @@ const ResumeIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="5" y="5" width="14" height="14" rx="1" />
+  </svg>
+);
+
 const SpinnerIcon = () => (
   <svg className="animate-spin" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M21 12a9 9 0 1 1-6.219-8.56" />
@@ -115,31 +165,50 @@ const SpinnerIcon = () => (
 interface UkrainianConferenceProps {
   onLeave: () => void;
   agentControl: AgentControlConfig | null;
+  /** Removes the agent for good, as opposed to pausing it. */
+  agentStopControl: AgentControlConfig | null;
   showInviteHint: boolean;
   roomName: string;
   agentMessage: string | null;
   agentIdentity: string;
   onAgentPresenceChange: (present: boolean, agentId?: string | null) => void;
+  /** Called with the room-wide agent state whenever the room metadata changes. */
+  onRoomAgentStateChange: (state: RoomAgentState | null) => void;
   agentStatus: AgentStatus;
+  /** The agent joined after an invite but was not heard before the deadline. */
+  agentSilent?: boolean;
+  /** Who else last changed the room's agent state, ready to show; null for own changes. */
+  agentChangedBy?: string | null;
   isDemoRoom: boolean;
+  /** When the demo room's agent session runs out; shown and announced as a countdown. */
+  demoEndsAt?: number | null;
   translations: Translations;
   locale: 'uk' | 'en';
   onLocaleChange: (locale: 'uk' | 'en') => void;
+  isHost: boolean;
+  roomToken: string;
 }
 
 function UkrainianConference({
   onLeave,
   agentControl,
+  agentStopControl,
   showInviteHint,
   roomName,
   agentMessage,
   agentIdentity,
   onAgentPresenceChange,
+  onRoomAgentStateChange,
   agentStatus,
+  agentSilent = false,
+  agentChangedBy = null,
   isDemoRoom,
+  demoEndsAt = null,
   translations,
   locale,
   onLocaleChange,
+  isHost,
+  roomToken,
 }: UkrainianConferenceProps) {
   const t = translations;
   const tracks = useTracks(
@@ -157,79 +226,19 @@ function UkrainianConference({
   const agentControlHintId = useId();
   const leaveHintId = useId();
   const room = useRoomContext();
+  const demoRemainingMs = useDemoCountdown(demoEndsAt);
 
-  const normalizeValue = useCallback((value?: string | null) => value?.trim().toLowerCase() ?? '', []);
-
-  const isAgentParticipant = useCallback(
-    (identity?: string | null, name?: string | null, metadata?: string | null) => {
-      const normalizedTarget = normalizeValue(agentIdentity);
-      const normalizedIdentity = normalizeValue(identity);
-      const normalizedName = normalizeValue(name);
-
-      if (normalizedTarget && (normalizedIdentity === normalizedTarget || normalizedName === normalizedTarget)) {
-        return true;
-      }
-
-      // Stronger check for identity starting with 'agent-'
-      if (normalizedIdentity.startsWith('agent-')) {
-        return true;
-      }
-
-      if (normalizedName.includes('agent')) {
-        return true;
-      }
-
-      const rawMetadata = typeof metadata === 'string' ? metadata.trim() : '';
-      if (!rawMetadata) {
-        return false;
-      }
-
-      const loweredMetadata = rawMetadata.toLowerCase();
-      if (loweredMetadata.includes('ai-agent') || loweredMetadata.includes('voice_agent')) {
-        return true;
-      }
-
-      try {
-        const parsed = JSON.parse(rawMetadata);
-        if (parsed && typeof parsed === 'object') {
-          const possibleFlags = [
-            parsed.agent,
-            parsed.isAgent,
-            parsed.aiAgent,
-            parsed.is_ai_agent,
-            parsed.voice_agent,
-          ];
-          if (possibleFlags.some((flag) => Boolean(flag))) {
-            return true;
-          }
-          const roleLike = parsed.role || parsed.type || parsed.participantType;
-          if (typeof roleLike === 'string' && roleLike.toLowerCase().includes('agent')) {
-            return true;
-          }
-          if (Array.isArray(parsed.roles)) {
-            const hasAgentRole = parsed.roles.some(
-              (role) => typeof role === 'string' && role.toLowerCase().includes('agent'),
-            );
-            if (hasAgentRole) {
-              return true;
-            }
-          }
-        }
-      } catch {
-        // metadata is not JSON; fall back to substring checks only
-      }
-
-      return loweredMetadata.includes('agent');
-    },
-    [agentIdentity, normalizeValue],
+  const isAgent = useCallback(
+    (participant: Participant) => isAgentParticipant(participant, agentIdentity),
+    [agentIdentity],
   );
 
   // Filter out agent tracks completely so they don't appear in the grid
   const filteredTracks = useMemo(() => {
     return tracks.filter(track => {
-      return !isAgentParticipant(track.participant.identity, track.participant.name, track.participant.metadata);
+      return !isAgent(track.participant);
     });
-  }, [tracks, isAgentParticipant]);
+  }, [tracks, isAgent]);
 
   // Create manual placeholders for real users who have no camera track
   const trackWithPlaceholders = useMemo(() => {
@@ -237,7 +246,7 @@ function UkrainianConference({
     const participantsWithCamera = new Set(cameraTracks.map(t => t.participant.identity));
 
     const realParticipants = participants.filter(p =>
-      !p.isLocal && !isAgentParticipant(p.identity, p.name, p.metadata)
+      !p.isLocal && !isAgent(p)
     );
 
     const additionalTracks: any[] = [];
@@ -253,7 +262,7 @@ function UkrainianConference({
     });
 
     return [...filteredTracks, ...additionalTracks];
-  }, [filteredTracks, participants, isAgentParticipant]);
+  }, [filteredTracks, participants, isAgent]);
 
   const remoteTracks = useMemo(
     () => trackWithPlaceholders.filter((track) => !track.participant.isLocal),
@@ -264,9 +273,9 @@ function UkrainianConference({
   const humanRemoteTracks = useMemo(
     () =>
       remoteTracks.filter(
-        (track) => !isAgentParticipant(track.participant.identity, track.participant.name, track.participant.metadata),
+        (track) => !isAgent(track.participant),
       ),
-    [remoteTracks, isAgentParticipant],
+    [remoteTracks, isAgent],
   );
 
   const localTracks = useMemo(
@@ -280,10 +289,20 @@ function UkrainianConference({
   const agentParticipant = useMemo(() => {
     return (
       participants.find((participant) =>
-        !participant.isLocal && isAgentParticipant(participant.identity, participant.name, participant.metadata),
+        !participant.isLocal && isAgent(participant),
       ) ?? null
     );
-  }, [participants, isAgentParticipant]);
+  }, [participants, isAgent]);
+
+  const remoteHumans = useMemo(
+    () => participants.filter((p) => !p.isLocal && !isAgent(p)),
+    [participants, isAgent],
+  );
+
+  const remoteHumanNames = useMemo(
+    () => remoteHumans.map((p) => getDisplayName(p) || t.participantFallbackName),
+    [remoteHumans, t.participantFallbackName],
+  );
 
   const showAgentAnimation = agentStatus !== 'idle' && agentStatus !== 'error';
 
@@ -295,14 +314,34 @@ function UkrainianConference({
     onAgentPresenceChange(Boolean(agentParticipant), agentParticipant?.identity ?? agentParticipant?.name ?? null);
   }, [agentParticipant, onAgentPresenceChange]);
 
+  const { metadata: roomMetadata } = useRoomInfo();
+  useEffect(() => {
+    onRoomAgentStateChange(readRoomAgentState(roomMetadata));
+  }, [roomMetadata, onRoomAgentStateChange]);
+
   // --- Waiting Sound Logic ---
   // We want to play the sound if:
   // 1. Agent is being requested (waiting for join)
-  // 2. Agent has joined (active) but hasn't spoken yet (waiting for greeting)
+  // 2. Agent has joined (active) but is still initializing. Agents that do not publish
+  //    `lk.agent.state` count as initializing until they first speak.
 
+  const agentActivity = useAgentActivity(agentParticipant);
   const [hasAgentSpoken, setHasAgentSpoken] = useState(false);
   const agentAudioLevel = useAudioLevel(agentParticipant);
 
+  // Stop receiving a paused agent's audio locally too, in case it keeps publishing.
+  useEffect(() => {
+    if (!(agentParticipant instanceof RemoteParticipant)) {
+      return;
+    }
+    const subscribed = agentStatus !== 'paused';
+    agentParticipant.audioTrackPublications.forEach((publication) => {
+      if (publication.isDesired !== subscribed) {
+        publication.setSubscribed(subscribed);
+      }
+    });
+  }, [agentParticipant, agentStatus]);
+
   // Reset hasAgentSpoken when agent leaves or status changes to non-active
   useEffect(() => {
     if (agentStatus !== 'active' && agentStatus !== 'requesting') {
@@ -333,9 +372,23 @@ function UkrainianConference({
 
   const shouldPlayWaitingSound =
     agentStatus === 'requesting' ||
-    (agentStatus === 'active' && !hasAgentSpoken && !activeTimeout);
+    (agentStatus === 'active' &&
+      !agentSilent &&
+      (agentActivity ? agentActivity === 'initializing' : !hasAgentSpoken && !activeTimeout));
+
+  const { playAgentDisconnectSound, playUserDisconnectSound, playThinkingSound, initAudio } =
+    useConnectionSounds(shouldPlayWaitingSound);
 
-  const { playAgentDisconnectSound, playUserDisconnectSound, initAudio } = useConnectionSounds(shouldPlayWaitingSound);
+  // Earcon when the agent starts working on a request.
+  const prevAgentActivity = useRef<AgentActivity | null>(null);
+  useEffect(() => {
+    const startedThinking =
+      agentActivity === 'thinking' && prevAgentActivity.current !== 'thinking';
+    if (startedThinking && agentStatus === 'active') {
+      playThinkingSound();
+    }
+    prevAgentActivity.current = agentActivity;
+  }, [agentActivity, agentStatus, playThinkingSound]);
 
   // Play disconnect sound when agent goes from active to idle/paused OR disconnecting
   const prevAgentStatus = useRef(agentStatus);
@@ -367,11 +420,19 @@ function UkrainianConference({
           {isDemoRoom ? (
             <h2>{t.conference.demoRoomLabel}</h2>
           ) : null}
+          {demoRemainingMs !== null && (
+            <div className="demo-countdown">
+              {demoRemainingMs > 0
+                ? t.conference.demoTimeLeft(formatCountdown(demoRemainingMs))
+                : t.conference.demoEnded}
+            </div>
+          )}
           {agentMessage && (
             <div className="agent-status-message">
               {agentMessage}
             </div>
           )}
+          {agentChangedBy && <div className="agent-changed-by">{agentChangedBy}</div>}
         </div>
         <div className="ua-language-float">
           <button
@@ -391,6 +452,19 @@ function UkrainianConference({
         </div>
       </div>
 
+      <p className="sr-only" aria-live="polite">
+        {remoteHumanNames.length > 0 ? `${t.conference.participantsLabel}: ${remoteHumanNames.join(', ')}` : ''}
+      </p>
+      <p className="sr-only" aria-live="polite">
+        {agentStatus === 'active' && agentActivity ? t.conference.agentActivity[agentActivity] : ''}
+      </p>
+      <p className="sr-only" aria-live="polite">
+        {agentChangedBy ?? ''}
+      </p>
+      <p className="sr-only" aria-live="polite">
+        {describeDemoRemaining(t, demoRemainingMs)}
+      </p>
+
       <div
         className={`ua-grid ${isSoloMode ? 'ua-grid--solo-agent' : ''}`}
         data-participant-count={tileCount}
@@ -456,7 +530,9 @@ function UkrainianConference({
                 }}
                 disabled={agentControl.disabled}
                 aria-label={agentControl.ariaLabel}
-                title={agentControl.label}
+                title={
+                  agentChangedBy ? `${agentControl.label}. ${agentChangedBy}` : agentControl.label
+                }
                 data-agent-state={agentControl.state}
               >
                 {agentControl.state === 'pause' ? (
@@ -475,6 +551,31 @@ function UkrainianConference({
               </button>
             )}
 
+            {agentStopControl && (
+              <button
+                type="button"
+                className="ua-button agent-control"
+                onClick={agentStopControl.onClick}
+                disabled={agentStopControl.disabled}
+                aria-label={agentStopControl.ariaLabel}
+                title={agentStopControl.hint}
+                data-agent-state={agentStopControl.state}
+              >
+                <StopIcon />
+                <span className="ua-button-label">{agentStopControl.label}</span>
+              </button>
+            )}
+
+            {isHost && (
+              <HostControls
+                roomName={roomName}
+                roomToken={roomToken}
+                participants={remoteHumans}
+                getDisplayName={getDisplayName}
+                translations={translations}
+              />
+            )}
+
             <button
               type="button"
               className="ua-button danger"
@@ -496,7 +597,9 @@ function UkrainianConference({
         {showAgentAnimation && (
           <AgentPresenceVisual
             state={agentStatus}
+            activity={agentActivity}
             participant={agentParticipant}
+            changedBy={agentChangedBy}
             translations={translations}
           />
         )}
@@ -507,11 +610,21 @@ function UkrainianConference({
 
 interface AgentPresenceVisualProps {
   state: AgentStatus;
+  /** From `lk.agent.state`; without it, speaking is guessed from the audio level. */
+  activity: AgentActivity | null;
   participant: Participant | null;
+  /** Who else last changed the agent's state; added to the tooltip. */
+  changedBy: string | null;
   translations: Translations;
 }
 
-function AgentPresenceVisual({ state, participant, translations }: AgentPresenceVisualProps) {
+function AgentPresenceVisual({
+  state,
+  activity,
+  participant,
+  changedBy,
+  translations,
+}: AgentPresenceVisualProps) {
   // Cast to any because standard types might expect TrackReference, but newer SDKs handle Participant or we handle nulls safely
   const audioLevel = useAudioLevel(participant as any);
 
@@ -519,9 +632,16 @@ function AgentPresenceVisual({ state, participant, translations }: AgentPresence
   // Natural feel: Subtle size change (x0.6), rely on internal animation speed/glow for intensity.
   const scale = Math.min(1.15, 1 + (audioLevel || 0) * 0.6);
 
-  const isConnecting = state === 'requesting' || (state === 'active' && !participant);
+  const isConnecting =
+    state === 'requesting' || (state === 'active' && (!participant || activity === 'initializing'));
   // Only show speaking animation if active (not paused)
-  const isSpeaking = state === 'active' && (audioLevel || 0) > 0.01;
+  const isSpeaking =
+    state === 'active' && (activity ? activity === 'speaking' : (audioLevel || 0) > 0.01);
+  const title = isConnecting
+    ? translations.conference.agentConnectingTitle
+    : state === 'active' && activity
+      ? translations.conference.agentActivity[activity]
+      : translations.conference.agentActiveTitle;
 
   return (
     <div
@@ -530,7 +650,8 @@ function AgentPresenceVisual({ state, participant, translations }: AgentPresence
       data-agent-state={state}
       data-agent-connecting={isConnecting}
       data-is-speaking={isSpeaking}
-      title={isConnecting ? translations.conference.agentConnectingTitle : translations.conference.agentActiveTitle}
+      data-agent-activity={activity ?? undefined}
+      title={changedBy ? `${title}. ${changedBy}` : title}
       style={{
         '--agent-scale': scale,
       } as React.CSSProperties}
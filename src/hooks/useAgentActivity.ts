@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { ParticipantEvent } from 'livekit-client';
+import type { Participant } from 'livekit-client';
+import { readAgentActivity } from '../types/participant';
+import type { AgentActivity } from '../types/participant';
+
+/** Follows the agent's `lk.agent.state` attribute; null for agents that do not publish it. */
+export function useAgentActivity(participant: Participant | null): AgentActivity | null {
+  const [activity, setActivity] = useState<AgentActivity | null>(() => readAgentActivity(participant));
+
+  useEffect(() => {
+    setActivity(readAgentActivity(participant));
+    if (!participant) {
+      return;
+    }
+    const handleAttributesChanged = () => setActivity(readAgentActivity(participant));
+    participant.on(ParticipantEvent.AttributesChanged, handleAttributesChanged);
+    return () => {
+      participant.off(ParticipantEvent.AttributesChanged, handleAttributesChanged);
+    };
+  }, [participant]);
+
+  return activity;
+}
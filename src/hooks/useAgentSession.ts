@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import { RoomEvent } from 'livekit-client';
+import type { Participant, Room } from 'livekit-client';
+import type { Translations } from '../i18n';
+import { isAgentParticipant, readAgentActivity } from '../types/participant';
+import { findAgentParticipant } from '../utils/agentRpc';
+import {
+  agentSessionReducer,
+  decideOnJoinDeadline,
+  DEFAULT_AGENT_JOIN_POLICY,
+  describeAgentDiagnosis,
+  initialAgentSessionState,
+  retryDelayMs,
+} from '../utils/agentSession';
+import type { AgentJoinPolicy, AgentStatusReport } from '../utils/agentSession';
+import { ApiRequestError } from '../utils/api';
+
+interface UseAgentSessionOptions {
+  room: Room;
+  agentIdentity: string;
+  translations: Translations;
+  /**
+   * Sends one invite; rejects with an `ApiRequestError` when the server refuses it. Resends of the
+   * same invite carry the same `idempotencyKey`, so the server creates at most one dispatch.
+   */
+  requestDispatch: (
+    mode: 'invite' | 'resume',
+    idempotencyKey: string,
+  ) => Promise<{ agentPresent?: boolean }>;
+  /** Reads the current agent status; used once the join deadline passes. */
+  readStatus: () => Promise<AgentStatusReport>;
+  /** Removes the dispatch of an invite nobody answered. */
+  abandonDispatch: () => Promise<void>;
+  policy?: Partial<AgentJoinPolicy>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+
+/**
+ * Owns the agent's `AgentStatus`. An invite waits `joinDeadlineMs` for the agent to join and
+ * retries with exponential backoff while no worker picks it up; an agent that joins but is not
+ * heard within the same deadline is reported as silent. The transitions live in
+ * `utils/agentSession`.
+ */
+export function useAgentSession({
+  room,
+  agentIdentity,
+  translations,
+  requestDispatch,
+  readStatus,
+  abandonDispatch,
+  policy: policyOverrides,
+}: UseAgentSessionOptions) {
+  const [state, dispatch] = useReducer(agentSessionReducer, initialAgentSessionState);
+  const policy = useMemo(
+    () => ({ ...DEFAULT_AGENT_JOIN_POLICY, ...policyOverrides }),
+    [policyOverrides],
+  );
+
+  // Retries outlive the render that started them, so they always call the latest callbacks.
+  const latest = useRef({ requestDispatch, readStatus, abandonDispatch, translations, state });
+  latest.current = { requestDispatch, readStatus, abandonDispatch, translations, state };
+  // Bumped by every new invite and by reset, so a superseded invite stops where it is.
+  const sessionRef = useRef(0);
+
+  const sendInvite = useCallback(
+    async (
+      mode: 'invite' | 'resume',
+      attempt: number,
+      session: number,
+      idempotencyKey: string,
+    ) => {
+      for (let current = attempt; ; current += 1) {
+        dispatch({ type: 'inviteStarted', attempt: current });
+        try {
+          const result = await latest.current.requestDispatch(mode, idempotencyKey);
+          if (session !== sessionRef.current) return;
+          const agentPresent = Boolean(result.agentPresent);
+          dispatch({ type: 'inviteAccepted', agentPresent, at: Date.now() });
+          return;
+        } catch (error) {
+          if (session !== sessionRef.current) return;
+          console.error('agent invite failed', error);
+          const retryable = error instanceof ApiRequestError && error.retryable;
+          if (!retryable || current >= policy.maxAttempts) {
+            dispatch({
+              type: 'failed',
+              message:
+                error instanceof ApiRequestError && error.code
+                  ? error.message
+                  : latest.current.translations.errors.agentInviteFailed,
+            });
+            return;
+          }
+          await sleep(retryDelayMs(policy, current));
+          if (session !== sessionRef.current) return;
+        }
+      }
+    },
+    [policy],
+  );
+
+  const invite = useCallback(
+    async (mode: 'invite' | 'resume') => {
+      sessionRef.current += 1;
+      await sendInvite(mode, 1, sessionRef.current, crypto.randomUUID());
+    },
+    [sendInvite],
+  );
+
+  // Join deadline: the agent has not shown up since the invite was accepted.
+  useEffect(() => {
+    if (state.waitingSince === null) {
+      return;
+    }
+    const session = sessionRef.current;
+    const timer = window.setTimeout(async () => {
+      let report: AgentStatusReport;
+      try {
+        report = await latest.current.readStatus();
+      } catch (error) {
+        console.warn('agent status check at join deadline failed', error);
+        report = {
+          active: false,
+          agentPresent: false,
+          errorMessage: null,
+          errorCode: null,
+          errorDetail: null,
+        };
+      }
+      // The agent may have joined while the status was loading.
+      if (session !== sessionRef.current || latest.current.state.waitingSince === null) return;
+
+      const decision = decideOnJoinDeadline(latest.current.state, report, policy);
+      if (decision.action === 'retry') {
+        console.warn(`agent did not join, retrying in ${decision.delayMs} ms`);
+        await sleep(decision.delayMs);
+        if (session !== sessionRef.current) return;
+        // The server answered the last key; reusing it would only replay that answer.
+        const nextKey = crypto.randomUUID();
+        await sendInvite('invite', latest.current.state.attempt + 1, session, nextKey);
+        return;
+      }
+      if (decision.diagnosis.kind === 'silent') {
+        dispatch({ type: 'statusReport', report, at: Date.now() });
+        dispatch({ type: 'silent' });
+        return;
+      }
+      if (decision.diagnosis.kind === 'no_worker') {
+        await latest.current.abandonDispatch().catch((error) => {
+          console.warn('removing unanswered agent dispatch failed', error);
+        });
+        if (session !== sessionRef.current) return;
+      }
+      dispatch({
+        type: 'failed',
+        message: describeAgentDiagnosis(latest.current.translations, decision.diagnosis),
+        diagnosis: decision.diagnosis,
+      });
+    }, policy.joinDeadlineMs);
+    return () => window.clearTimeout(timer);
+  }, [state.waitingSince, policy, sendInvite]);
+
+  // Silence deadline: the agent joined after our invite but has not been heard from.
+  const awaitingGreeting =
+    state.status === 'active' && state.attempt > 0 && state.joinedAt !== null && !state.engaged;
+  useEffect(() => {
+    if (!awaitingGreeting) {
+      return;
+    }
+    const timer = window.setTimeout(() => dispatch({ type: 'silent' }), policy.joinDeadlineMs);
+    return () => window.clearTimeout(timer);
+  }, [awaitingGreeting, policy.joinDeadlineMs]);
+
+  useEffect(() => {
+    if (!awaitingGreeting) {
+      return;
+    }
+    const isAgent = (participant: Participant) => isAgentParticipant(participant, agentIdentity);
+    const hasStarted = (participant: Participant | null) => {
+      const activity = participant ? readAgentActivity(participant) : null;
+      return activity !== null && activity !== 'initializing';
+    };
+    if (hasStarted(findAgentParticipant(room, agentIdentity))) {
+      dispatch({ type: 'engaged' });
+      return;
+    }
+
+    const handleSpeakers = (speakers: Participant[]) => {
+      if (speakers.some(isAgent)) dispatch({ type: 'engaged' });
+    };
+    const handleAttributes = (_changed: Record<string, string>, participant: Participant) => {
+      if (isAgent(participant) && hasStarted(participant)) dispatch({ type: 'engaged' });
+    };
+    room.on(RoomEvent.ActiveSpeakersChanged, handleSpeakers);
+    room.on(RoomEvent.ParticipantAttributesChanged, handleAttributes);
+    return () => {
+      room.off(RoomEvent.ActiveSpeakersChanged, handleSpeakers);
+      room.off(RoomEvent.ParticipantAttributesChanged, handleAttributes);
+    };
+  }, [awaitingGreeting, room, agentIdentity]);
+
+  const reset = useCallback(() => {
+    sessionRef.current += 1;
+    dispatch({ type: 'reset' });
+  }, []);
+
+  const silent = state.diagnosis?.kind === 'silent';
+  const message =
+    state.message ?? (silent ? describeAgentDiagnosis(translations, { kind: 'silent' }) : null);
+
+  return { state, message, silent, dispatch, invite, reset };
+}
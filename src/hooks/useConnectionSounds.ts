@@ -162,6 +162,36 @@ export function useConnectionSounds(isConnecting: boolean) {
         osc.stop(now + 0.3);
     }, []);
 
+    // Thinking Earcon: two soft rising notes, so a listener knows the request was heard
+    const playThinkingSound = useCallback(() => {
+        const ctx = getContext();
+        if (!ctx) return;
+
+        if (ctx.state === 'suspended') {
+            ctx.resume().catch(() => { });
+        }
+
+        const now = ctx.currentTime;
+        [660, 880].forEach((freq, index) => {
+            const start = now + index * 0.12;
+            const osc = ctx.createOscillator();
+            const gain = ctx.createGain();
+
+            osc.connect(gain);
+            gain.connect(ctx.destination);
+
+            osc.type = 'triangle';
+            osc.frequency.setValueAtTime(freq, start);
+
+            gain.gain.setValueAtTime(0, start);
+            gain.gain.linearRampToValueAtTime(0.15, start + 0.02);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + 0.18);
+
+            osc.start(start);
+            osc.stop(start + 0.18);
+        });
+    }, []);
+
     // Mobile Autoplay Fix: Expose a function to initialize/resume context on user interaction
     const initAudio = useCallback(() => {
         const ctx = getContext();
@@ -170,5 +200,5 @@ export function useConnectionSounds(isConnecting: boolean) {
         }
     }, []);
 
-    return { playAgentDisconnectSound, playUserDisconnectSound, initAudio };
+    return { playAgentDisconnectSound, playUserDisconnectSound, playThinkingSound, initAudio };
 }
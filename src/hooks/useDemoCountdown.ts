@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+/** Milliseconds left until `endsAt`, updated every second; null without a deadline. */
+export function useDemoCountdown(endsAt: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [endsAt]);
+
+  return endsAt === null ? null : Math.max(endsAt - now, 0);
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { LlmKeyValidateResponse, LlmKeyValidity } from '../types/api';
+import type { LlmCredentials } from '../types/llm';
+
+export type LlmKeyCheckState = 'idle' | 'checking' | LlmKeyValidity;
+
+/** The room the check is for and a room token or invite for it; the endpoint requires both. */
+export interface LlmKeyCheckAccess {
+  room: string;
+  token: string;
+}
+
+/**
+ * Checks `credentials` against `/api/llm-key/validate` once typing pauses. Returns `idle` without
+ * credentials or room access, and for self-hosted endpoints, which the server does not contact;
+ * `unknown` when the check itself fails.
+ */
+export function useLlmKeyCheck(
+  credentials: LlmCredentials | null,
+  access: LlmKeyCheckAccess | null,
+  delayMs = 600,
+): LlmKeyCheckState {
+  const [state, setState] = useState<LlmKeyCheckState>('idle');
+  const provider = credentials?.provider;
+  const key = credentials?.key ?? '';
+  const baseUrl = credentials?.baseUrl ?? '';
+  const room = access?.room ?? '';
+  const token = access?.token ?? '';
+
+  useEffect(() => {
+    if (!provider || provider === 'self-hosted' || !room || !token) {
+      setState('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    setState('checking');
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch('/api/llm-key/validate', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ room, provider, key, baseUrl: baseUrl || undefined }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`LLM key check failed (${response.status}).`);
+        }
+        const data = (await response.json()) as LlmKeyValidateResponse;
+        setState(data.result);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('useLlmKeyCheck failed', error);
+        setState('unknown');
+      }
+    }, delayMs);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [provider, key, baseUrl, room, token, delayMs]);
+
+  return state;
+}
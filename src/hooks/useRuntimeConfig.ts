@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import type { RuntimeConfigResponse } from '../types/api';
+
+/** Used until `/api/config` answers, and when it fails: no open rooms, the server's defaults. */
+export const FALLBACK_RUNTIME_CONFIG: RuntimeConfigResponse = {
+  status: 'ok',
+  defaultRoom: null,
+  demoRoom: null,
+  agentIdentity: null,
+  defaultKeyProviders: ['gemini'],
+  agentJoinTimeoutSeconds: null,
+  agentInviteAttempts: null,
+};
+
+// One request per page load, shared by every component that asks.
+let configRequest: Promise<RuntimeConfigResponse> | null = null;
+
+function loadRuntimeConfig() {
+  if (configRequest) {
+    return configRequest;
+  }
+  configRequest = fetch('/api/config')
+    .then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Loading runtime config failed (${response.status}).`);
+      }
+      return { ...FALLBACK_RUNTIME_CONFIG, ...((await response.json()) as RuntimeConfigResponse) };
+    })
+    .catch((error) => {
+      console.warn('useRuntimeConfig failed', error);
+      configRequest = null;
+      return FALLBACK_RUNTIME_CONFIG;
+    });
+  return configRequest;
+}
+
+/**
+ * The public runtime config from `/api/config`, which replaced the `VITE_*` build variables so
+ * that one deployment setting drives both the server and the client.
+ */
+export function useRuntimeConfig(): RuntimeConfigResponse {
+  const [config, setConfig] = useState(FALLBACK_RUNTIME_CONFIG);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRuntimeConfig().then((loaded) => {
+      if (!cancelled) setConfig(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return config;
+}
@@ -1,3 +1,8 @@
+import type { RoomAgentPhase } from './types/agent';
+import type { ApiErrorCode } from './types/api';
+import type { LlmCredentialsProblem, LlmProvider } from './types/llm';
+import type { AgentActivity } from './types/participant';
+
 export type Locale = 'uk' | 'en';
 
 export interface Translations {
@@ -7,19 +12,41 @@ export interface Translations {
   welcome: string;
   createBroadcast: string;
   createBroadcastHelp: string;
+  autoAgentLabel: string;
+  autoAgentHint: string;
+  autoAgentJoined: string;
   roomReadyTitle: string;
   roomReadyHelpWithToken: string;
   roomReadyHelpNoToken: string;
   roomReadyHelpNoName: string;
   shareLinkLabel: string;
+  personalLinkLabel: string;
+  personalLinkHint: string;
+  oneTapHelp: string;
   nameLabel: string;
+  agentLabel: string;
+  llmProviderLabel: string;
+  llmProviders: Record<LlmProvider, string>;
+  llmBaseUrlLabel: string;
+  llmBaseUrlPlaceholder: string;
   llmTokenLabel: string;
   llmTokenPlaceholder: string;
+  llmTokenSavedPlaceholder: string;
   llmTokenHint: string;
+  llmKeyCheck: {
+    checking: string;
+    valid: string;
+    invalid: string;
+    no_permission: string;
+    unknown: string;
+  };
+  llmCredentialsProblems: Record<LlmCredentialsProblem, string>;
   participantFallbackName: string;
   actions: {
     createRoom: string;
     startBroadcast: string;
+    start: string;
+    createPersonalLink: string;
     joinRoom: string;
     wait: string;
     disconnect: string;
@@ -29,12 +56,21 @@ export interface Translations {
     tokenHtmlResponse: string;
     tokenInvalidResponse: string;
     tokenRequestFailed: string;
+    roomCreateFailed: string;
     agentInviteFailed: string;
     agentStatusFailed: string;
     invalidApiKey: string;
     permissionDenied: string;
     agentStartFailed: string;
+    agentNoWorker: string;
+    agentSilent: string;
+    personalLinkFailed: string;
+    tokenRefreshFailed: string;
+    agentRemoveFailed: string;
+    agentStateShareFailed: string;
+    agentDispatchClearFailed: string;
   };
+  apiErrors: Record<ApiErrorCode, string>;
   status: {
     preparing: string;
     active: string;
@@ -48,6 +84,8 @@ export interface Translations {
     resumeLabel: string;
     resumeHint: string;
     processingLabel: string;
+    stopLabel: string;
+    stopHint: string;
   };
   toggle: {
     on: string;
@@ -57,8 +95,29 @@ export interface Translations {
     demoRoomLabel: string;
     agentConnectingTitle: string;
     agentActiveTitle: string;
+    agentActivity: Record<AgentActivity, string>;
     leaveLabel: string;
     roomAriaLabel: string;
+    participantsLabel: string;
+    /** Who else changed the room's agent state, by the state they left it in. */
+    agentChangedBy: Record<RoomAgentPhase, (name: string) => string>;
+    /** Visible countdown, e.g. `4:32`. */
+    demoTimeLeft: (time: string) => string;
+    /** Spoken as the demo session nears its end. */
+    demoMinutesLeft: (minutes: number) => string;
+    demoEnded: string;
+  };
+  moderation: {
+    openLabel: string;
+    closeLabel: string;
+    title: string;
+    empty: string;
+    mute: string;
+    allowSpeaking: string;
+    revokeSpeaking: string;
+    remove: string;
+    removeConfirm: string;
+    failed: string;
   };
   devices: {
     microphone: string;
@@ -71,6 +130,19 @@ export interface Translations {
   };
 }
 
+// хвилина, хвилини, хвилин: Ukrainian picks the form from the last one or two digits.
+function ukrainianMinutes(count: number) {
+  const lastTwo = count % 100;
+  const last = count % 10;
+  if (last === 1 && lastTwo !== 11) {
+    return 'хвилина';
+  }
+  if (last >= 2 && last <= 4 && (lastTwo < 12 || lastTwo > 14)) {
+    return 'хвилини';
+  }
+  return 'хвилин';
+}
+
 const uk: Translations = {
   languageLabel: 'Мова',
   languageName: 'Українська',
@@ -81,21 +153,52 @@ const uk: Translations = {
   welcome: 'Вітаю',
   createBroadcast: 'Створити трансляцію',
   createBroadcastHelp: 'Натисніть нижче, щоб створити нову трансляцію і запросити асистента і інших учасників.',
+  autoAgentLabel: 'Запрошувати асистента автоматично',
+  autoAgentHint: 'Асистент приєднається сам, щойно хтось увійде в кімнату, без натискання «Запросити асистента».',
+  autoAgentJoined: 'Асистент приєднався до розмови.',
   roomReadyTitle: 'Вашу кімнату для зустрічі створено.',
   roomReadyHelpWithToken:
     'Вкажіть своє імʼя, за бажанням додайте LLM токен і натисніть кнопку, щоб підключитися.',
   roomReadyHelpNoToken: 'Вкажіть своє імʼя і натисніть кнопку, щоб підключитися.',
   roomReadyHelpNoName: 'Натисніть кнопку, щоб підключитися.',
   shareLinkLabel: 'Посилання для асистента:',
+  personalLinkLabel: 'Особисте посилання',
+  personalLinkHint: 'Ім’я і мову буде вписано в посилання. Отримувач підключиться одним натисканням кнопки «Почати».',
+  oneTapHelp: 'Натисніть «Почати», щоб підключитися.',
   nameLabel: 'Ваше імʼя',
+  agentLabel: 'ШІ асистент для кімнати',
+  llmProviderLabel: 'Провайдер LLM',
+  llmProviders: {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+    'self-hosted': 'Власний сервер (сумісний з OpenAI)',
+  },
+  llmBaseUrlLabel: 'Адреса сервера',
+  llmBaseUrlPlaceholder: 'https://llm.example.com/v1',
   llmTokenLabel: 'LLM API токен для ШІ асистента (необов’язково)',
   llmTokenPlaceholder: 'Вставте токен вашого асистента',
+  llmTokenSavedPlaceholder: 'Токен збережено. Вставте новий, щоб замінити',
   llmTokenHint:
-    'Токен збережеться в браузері і, якщо введений, передаватиметься асистенту. Без токена працюватиме звичайна відеозустріч.',
+    'Токен один раз надсилається на сервер і зберігається там зашифрованим, а браузер пам’ятає лише посилання на нього. Без токена працюватиме звичайна відеозустріч.',
+  llmKeyCheck: {
+    checking: 'Перевіряю токен…',
+    valid: 'Токен дійсний.',
+    invalid: 'Токен недійсний. Перевірте, чи скопійовано його повністю.',
+    no_permission: 'Токен дійсний, але не має доступу до моделі.',
+    unknown: 'Не вдалося перевірити токен зараз.',
+  },
+  llmCredentialsProblems: {
+    key_missing: 'Вставте токен для обраного провайдера.',
+    key_format: 'Токен не схожий на ключ обраного провайдера.',
+    base_url: 'Вкажіть адресу сервера, що починається з http:// або https://.',
+  },
   participantFallbackName: 'Учасник',
   actions: {
     createRoom: 'Створити трансляцію',
     startBroadcast: 'Почати трансляцію',
+    start: 'Почати',
+    createPersonalLink: 'Створити особисте посилання',
     joinRoom: 'Підключитися',
     wait: 'Зачекайте…',
     disconnect: 'Завершити',
@@ -106,11 +209,44 @@ const uk: Translations = {
       'Не вдалося отримати токен. Переконайтесь, що запущено бекенд, який відповідає на /api/token (наприклад, wrangler pages dev).',
     tokenInvalidResponse: 'Сервер токена повернув невалідну відповідь.',
     tokenRequestFailed: 'Не вдалося отримати токен.',
+    roomCreateFailed: 'Не вдалося створити кімнату. Спробуйте ще раз.',
     agentInviteFailed: 'Не вдалося запросити ШІ асистента. Перевірте з’єднання або токен і спробуйте ще раз.',
     agentStatusFailed: 'Не вдалося оновити статус асистента. Перевірте з’єднання і спробуйте знову.',
     invalidApiKey: 'Неправильний LLM токен. Перевірте налаштування і спробуйте ще раз.',
     permissionDenied: 'Немає дозволу на використання цього LLM. Зверніться до адміністратора.',
     agentStartFailed: 'Не вдалося запустити ШІ асистента. Спробуйте ще раз.',
+    agentNoWorker: 'ШІ асистент зараз недоступний: жоден агент не відповів на запрошення. Спробуйте пізніше.',
+    agentSilent: 'ШІ асистент приєднався, але не відповідає. Зупиніть його і запросіть знову.',
+    personalLinkFailed: 'Не вдалося створити особисте посилання.',
+    tokenRefreshFailed: 'Не вдалося оновити токен.',
+    agentRemoveFailed: 'Не вдалося зупинити ШІ асистента. Спробуйте ще раз.',
+    agentStateShareFailed: 'Не вдалося повідомити учасникам стан асистента.',
+    agentDispatchClearFailed: 'Не вдалося прибрати попереднє запрошення асистента.',
+  },
+  apiErrors: {
+    method_not_allowed: 'Сервер не підтримує цей запит.',
+    not_configured: 'Сервер ще не налаштований. Зверніться до адміністратора.',
+    bad_request: 'Сервер не зміг обробити запит.',
+    room_required: 'Не вказано кімнату.',
+    unauthorized: 'Сесія застаріла. Приєднайтесь до кімнати ще раз.',
+    forbidden: 'У вас немає прав на цю дію.',
+    invite_invalid: 'Запрошення недійсне або застаріло. Попросіть нове посилання.',
+    invite_required: 'Щоб приєднатися до цієї кімнати, потрібне посилання-запрошення.',
+    token_invalid: 'Сесія застаріла. Приєднайтесь до кімнати ще раз.',
+    llm_token_required: 'LLM токен обов’язковий для цієї кімнати.',
+    agent_unknown: 'Такого асистента немає. Оберіть іншого.',
+    llm_key_expired: 'Збережений LLM токен більше не дійсний. Введіть його ще раз.',
+    llm_key_invalid: 'LLM токен не відповідає формату обраного провайдера.',
+    audio_host_not_allowed: 'Це джерело звуку не дозволене.',
+    not_found: 'Кімнату або учасника не знайдено.',
+    conflict: 'Стан кімнати змінився. Спробуйте ще раз.',
+    rate_limited: 'Забагато запитів. Зачекайте хвилинку і спробуйте знову.',
+    demo_quota_exceeded:
+      'Безкоштовний час демо на сьогодні вичерпано. Спробуйте завтра або створіть кімнату зі своїм токеном.',
+    upstream_unavailable: 'Сервер відео тимчасово недоступний. Спробуйте ще раз.',
+    upstream_timeout: 'Сервер відео не відповів вчасно. Спробуйте ще раз.',
+    upstream_error: 'Сервер відео повернув помилку. Спробуйте пізніше.',
+    internal: 'Сталася помилка на сервері. Спробуйте пізніше.',
   },
   status: {
     preparing: 'Готую з’єднання…',
@@ -121,10 +257,12 @@ const uk: Translations = {
     inviteLabel: 'Запросити асистента',
     inviteHint: 'Запросити асистента: додає асистента, який допомагатиме користувачеві.',
     pauseLabel: 'Пауза асистента',
-    pauseHint: 'Асистент тимчасово відійде.',
+    pauseHint: 'Асистент перестане слухати й говорити, але памʼятатиме розмову.',
     resumeLabel: 'Увімкнути асистента',
     resumeHint: 'Асистент повернеться до розмови.',
     processingLabel: 'Обробка запиту...',
+    stopLabel: 'Зупинити асистента',
+    stopHint: 'Асистент вийде з кімнати й забуде розмову.',
   },
   toggle: {
     on: 'Зараз увімкнено',
@@ -134,8 +272,37 @@ const uk: Translations = {
     demoRoomLabel: 'Демо кімната',
     agentConnectingTitle: 'Асистент підключається...',
     agentActiveTitle: 'Асистент активний',
+    agentActivity: {
+      initializing: 'Асистент готується',
+      listening: 'Асистент слухає',
+      thinking: 'Асистент обмірковує відповідь',
+      speaking: 'Асистент говорить',
+    },
     leaveLabel: 'Завершити',
     roomAriaLabel: 'Кімната відеозвʼязку',
+    participantsLabel: 'У кімнаті',
+    agentChangedBy: {
+      idle: (name) => `Асистента зупинено (${name})`,
+      requesting: (name) => `Асистента запрошено (${name})`,
+      active: (name) => `Асистента увімкнено (${name})`,
+      paused: (name) => `Асистента поставлено на паузу (${name})`,
+      error: (name) => `Асистент не запустився (${name})`,
+    },
+    demoTimeLeft: (time) => `Демо: залишилось ${time}`,
+    demoMinutesLeft: (minutes) => `Залишилось ${minutes} ${ukrainianMinutes(minutes)} демо`,
+    demoEnded: 'Час демо вичерпано, асистент вийшов з кімнати',
+  },
+  moderation: {
+    openLabel: 'Учасники',
+    closeLabel: 'Сховати учасників',
+    title: 'Керування учасниками',
+    empty: 'Крім вас, у кімнаті нікого немає.',
+    mute: 'Вимкнути мікрофон',
+    allowSpeaking: 'Дозволити говорити',
+    revokeSpeaking: 'Заборонити говорити',
+    remove: 'Видалити',
+    removeConfirm: 'Видалити з кімнати учасника',
+    failed: 'Не вдалося виконати дію. Спробуйте ще раз.',
   },
   devices: {
     microphone: 'Мікрофон',
@@ -158,21 +325,52 @@ const en: Translations = {
   welcome: 'Welcome',
   createBroadcast: 'Create broadcast',
   createBroadcastHelp: 'Click below to create a new session and invite the assistant and other participants.',
+  autoAgentLabel: 'Invite the assistant automatically',
+  autoAgentHint: 'The assistant joins as soon as someone enters the room, without pressing "Invite assistant".',
+  autoAgentJoined: 'The assistant has joined the conversation.',
   roomReadyTitle: 'Your meeting room is ready.',
   roomReadyHelpWithToken:
     'Enter your name, optionally add an LLM token, and press the button to connect.',
   roomReadyHelpNoToken: 'Enter your name and press the button to connect.',
   roomReadyHelpNoName: 'Press the button to connect.',
   shareLinkLabel: 'Assistant link:',
+  personalLinkLabel: 'Personal link',
+  personalLinkHint: 'The name and language are signed into the link. The recipient connects with a single press of "Start".',
+  oneTapHelp: 'Press "Start" to connect.',
   nameLabel: 'Your name',
+  agentLabel: 'AI assistant for this room',
+  llmProviderLabel: 'LLM provider',
+  llmProviders: {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+    'self-hosted': 'Self-hosted (OpenAI-compatible)',
+  },
+  llmBaseUrlLabel: 'Server URL',
+  llmBaseUrlPlaceholder: 'https://llm.example.com/v1',
   llmTokenLabel: 'LLM API token for the AI assistant (optional)',
   llmTokenPlaceholder: 'Paste your assistant token',
+  llmTokenSavedPlaceholder: 'Token saved. Paste a new one to replace it',
   llmTokenHint:
-    'The token is stored in your browser and, if provided, will be sent to the assistant. Without a token, it works as a regular video call.',
+    'The token is sent to the server once and kept there encrypted; your browser only remembers a reference to it. Without a token, it works as a regular video call.',
+  llmKeyCheck: {
+    checking: 'Checking the token…',
+    valid: 'The token is valid.',
+    invalid: 'The token is not valid. Check that you copied all of it.',
+    no_permission: 'The token works but has no access to the model.',
+    unknown: 'Could not check the token right now.',
+  },
+  llmCredentialsProblems: {
+    key_missing: 'Paste a token for the selected provider.',
+    key_format: 'This does not look like a key for the selected provider.',
+    base_url: 'Enter a server URL starting with http:// or https://.',
+  },
   participantFallbackName: 'Participant',
   actions: {
     createRoom: 'Create broadcast',
     startBroadcast: 'Start broadcast',
+    start: 'Start',
+    createPersonalLink: 'Create personal link',
     joinRoom: 'Join',
     wait: 'Please wait…',
     disconnect: 'Leave',
@@ -183,11 +381,44 @@ const en: Translations = {
       'Could not fetch a token. Make sure the backend responding to /api/token is running (e.g., wrangler pages dev).',
     tokenInvalidResponse: 'The token server returned an invalid response.',
     tokenRequestFailed: 'Failed to obtain token.',
+    roomCreateFailed: 'Could not create the room. Please try again.',
     agentInviteFailed: 'Could not invite the AI assistant. Check your connection or token and try again.',
     agentStatusFailed: 'Could not refresh assistant status. Check your connection and try again.',
     invalidApiKey: 'Invalid LLM token. Check your settings and try again.',
     permissionDenied: 'You do not have permission to use this LLM. Contact your administrator.',
     agentStartFailed: 'Failed to start the AI assistant. Please try again.',
+    agentNoWorker: 'The AI assistant is unavailable: no agent answered the invite. Please try again later.',
+    agentSilent: 'The AI assistant joined but is not responding. Stop it and invite it again.',
+    personalLinkFailed: 'Could not create the personal link.',
+    tokenRefreshFailed: 'Could not refresh the token.',
+    agentRemoveFailed: 'Could not stop the AI assistant. Please try again.',
+    agentStateShareFailed: 'Could not share the assistant state with the room.',
+    agentDispatchClearFailed: 'Could not clear the previous assistant invite.',
+  },
+  apiErrors: {
+    method_not_allowed: 'The server does not support this request.',
+    not_configured: 'The server is not configured yet. Contact your administrator.',
+    bad_request: 'The server could not process the request.',
+    room_required: 'No room was specified.',
+    unauthorized: 'Your session has expired. Please join the room again.',
+    forbidden: 'You are not allowed to do this.',
+    invite_invalid: 'This invite is invalid or has expired. Ask for a new link.',
+    invite_required: 'You need an invite link to join this room.',
+    token_invalid: 'Your session has expired. Please join the room again.',
+    llm_token_required: 'An LLM token is required for this room.',
+    agent_unknown: 'This assistant is not available. Choose another one.',
+    llm_key_expired: 'The saved LLM token is no longer valid. Please enter it again.',
+    llm_key_invalid: 'The LLM token does not match the selected provider’s format.',
+    audio_host_not_allowed: 'This audio source is not allowed.',
+    not_found: 'The room or participant was not found.',
+    conflict: 'The room changed in the meantime. Please try again.',
+    rate_limited: 'Too many requests. Wait a minute and try again.',
+    demo_quota_exceeded:
+      "Today's free demo time is used up. Try again tomorrow or create a room with your own token.",
+    upstream_unavailable: 'The video server is temporarily unavailable. Please try again.',
+    upstream_timeout: 'The video server did not respond in time. Please try again.',
+    upstream_error: 'The video server returned an error. Please try again later.',
+    internal: 'Something went wrong on the server. Please try again later.',
   },
   status: {
     preparing: 'Preparing connection…',
@@ -198,10 +429,12 @@ const en: Translations = {
     inviteLabel: 'Invite assistant',
     inviteHint: 'Invite the AI assistant to help during the call.',
     pauseLabel: 'Pause assistant',
-    pauseHint: 'The assistant will step away temporarily.',
+    pauseHint: 'The assistant stops listening and speaking but keeps the conversation.',
     resumeLabel: 'Resume assistant',
     resumeHint: 'The assistant will rejoin the conversation.',
     processingLabel: 'Processing request...',
+    stopLabel: 'Stop assistant',
+    stopHint: 'The assistant leaves the room and forgets the conversation.',
   },
   toggle: {
     on: 'Currently on',
@@ -211,8 +444,37 @@ const en: Translations = {
     demoRoomLabel: 'Demo room',
     agentConnectingTitle: 'Assistant connecting...',
     agentActiveTitle: 'Assistant active',
+    agentActivity: {
+      initializing: 'Assistant is getting ready',
+      listening: 'Assistant is listening',
+      thinking: 'Assistant is thinking',
+      speaking: 'Assistant is speaking',
+    },
     leaveLabel: 'Leave',
     roomAriaLabel: 'Video call room',
+    participantsLabel: 'In the room',
+    agentChangedBy: {
+      idle: (name) => `${name} stopped the assistant`,
+      requesting: (name) => `${name} invited the assistant`,
+      active: (name) => `${name} turned the assistant on`,
+      paused: (name) => `${name} paused the assistant`,
+      error: (name) => `The assistant failed to start for ${name}`,
+    },
+    demoTimeLeft: (time) => `Demo: ${time} left`,
+    demoMinutesLeft: (minutes) => `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} of demo left`,
+    demoEnded: 'Demo time is up, the assistant has left the room',
+  },
+  moderation: {
+    openLabel: 'Participants',
+    closeLabel: 'Hide participants',
+    title: 'Manage participants',
+    empty: 'Nobody else is in the room.',
+    mute: 'Mute microphone',
+    allowSpeaking: 'Allow speaking',
+    revokeSpeaking: 'Stop speaking',
+    remove: 'Remove',
+    removeConfirm: 'Remove from the room:',
+    failed: 'Could not complete the action. Please try again.',
   },
   devices: {
     microphone: 'Microphone',
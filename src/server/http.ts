@@ -0,0 +1,71 @@
+import type { ApiErrorBody, ApiErrorCode } from '../types/api';
+import { TwirpError, twirpErrorToHttpStatus } from './livekit/twirp';
+
+export interface ErrorResponseOptions {
+  detail?: string | null;
+  retryable?: boolean;
+  headers?: HeadersInit;
+}
+
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  { detail = null, retryable = false, headers }: ErrorResponseOptions = {},
+) {
+  const body: ApiErrorBody = { status: 'error', code, message, detail, retryable };
+  return Response.json(body, { status, headers });
+}
+
+function codeForTwirpError(error: TwirpError): ApiErrorCode {
+  switch (error.code) {
+    case 'invalid_argument':
+    case 'malformed':
+    case 'out_of_range':
+      return 'bad_request';
+    case 'not_found':
+      return 'not_found';
+    case 'already_exists':
+    case 'aborted':
+    case 'failed_precondition':
+      return 'conflict';
+    case 'resource_exhausted':
+      return 'rate_limited';
+    case 'unavailable':
+      return 'upstream_unavailable';
+    case 'deadline_exceeded':
+      return 'upstream_timeout';
+    default:
+      return 'upstream_error';
+  }
+}
+
+/** The envelope code {@link exceptionResponse} would answer with for `error`. */
+export function exceptionCode(error: unknown): ApiErrorCode {
+  return error instanceof TwirpError ? codeForTwirpError(error) : 'internal';
+}
+
+/** Wraps a thrown error in the envelope; LiveKit failures keep their Twirp code and message. */
+export function exceptionResponse(error: unknown, message: string, headers?: HeadersInit) {
+  if (error instanceof TwirpError) {
+    return errorResponse(twirpErrorToHttpStatus(error), codeForTwirpError(error), message, {
+      detail: error.msg || error.code,
+      retryable: error.retryable,
+      headers,
+    });
+  }
+  return errorResponse(500, 'internal', message, {
+    detail: error instanceof Error ? error.message : null,
+    headers,
+  });
+}
+
+export function methodNotAllowed(headers?: HeadersInit) {
+  return errorResponse(405, 'method_not_allowed', 'Method Not Allowed', { headers });
+}
+
+export function notConfigured(error: unknown) {
+  return errorResponse(500, 'not_configured', 'Environment not configured', {
+    detail: error instanceof Error ? error.message : null,
+  });
+}
@@ -0,0 +1,304 @@
+import type { LiveKitAgentEnv } from './env';
+import { readDemoEndsAt } from './demo-quota';
+import {
+  buildDispatchContext,
+  isDispatchedAgent,
+  listDispatches,
+  listParticipants,
+  normalizeAgentName,
+} from './dispatch';
+import type { AgentDispatch, DispatchContext, DispatchedParticipant } from './dispatch';
+import { readStoredRoomAgentState } from './room-agent-state';
+import { readRoomState } from './room-state';
+import { isDemoRoom } from './rooms';
+import type { RoomAgentState } from '../../types/agent';
+import { isAgentParticipant } from '../../types/participant';
+
+type UnknownRecord = Record<string, unknown>;
+
+const JOB_STATUS_BY_NUMBER: Record<number, string> = {
+  0: 'JS_PENDING',
+  1: 'JS_RUNNING',
+  2: 'JS_SUCCESS',
+  3: 'JS_FAILED',
+};
+
+function normalizeStatus(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value.trim().toUpperCase() || null;
+  }
+  if (typeof value === 'number') {
+    return JOB_STATUS_BY_NUMBER[value] ?? null;
+  }
+  return null;
+}
+
+function pickTimestamp(state: UnknownRecord | null | undefined): number {
+  if (!state) {
+    return 0;
+  }
+  const candidates = [
+    state.updatedAt,
+    state.updated_at,
+    state.endedAt,
+    state.ended_at,
+    state.startedAt,
+    state.started_at,
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'number') {
+      return candidate;
+    }
+    if (typeof candidate === 'string') {
+      const numeric = Number(candidate);
+      if (!Number.isNaN(numeric) && Number.isFinite(numeric)) {
+        return numeric;
+      }
+      const iso = Date.parse(candidate);
+      if (!Number.isNaN(iso)) {
+        return iso;
+      }
+    }
+  }
+
+  return 0;
+}
+
+function getJobState(job: unknown): UnknownRecord | null {
+  if (!job || typeof job !== 'object') {
+    return null;
+  }
+  const state = (job as UnknownRecord).state;
+  if (!state || typeof state !== 'object') {
+    return null;
+  }
+  return state as UnknownRecord;
+}
+
+function getJobs(dispatch: AgentDispatch): UnknownRecord[] {
+  const jobs = dispatch.state?.jobs;
+  if (!Array.isArray(jobs)) {
+    return [];
+  }
+  return jobs.filter((job): job is UnknownRecord => Boolean(job) && typeof job === 'object');
+}
+
+export function isActiveDispatch(dispatch: AgentDispatch): boolean {
+  const deleted = Boolean(dispatch.state?.deletedAt);
+  if (deleted) {
+    return false;
+  }
+  const jobs = getJobs(dispatch);
+  if (jobs.length === 0) {
+    return false;
+  }
+  return jobs.some((job) => {
+    const status = normalizeStatus(getJobState(job)?.status);
+    return status === 'JS_RUNNING' || status === 'JS_PENDING';
+  });
+}
+
+export interface DispatchErrorInfo {
+  code: string;
+  message: string;
+  detail?: string | null;
+}
+
+const DEFAULT_ERROR_CODE = 'dispatch_failed';
+
+function deriveErrorCode(detail?: string | null): string {
+  if (!detail) {
+    return DEFAULT_ERROR_CODE;
+  }
+  const normalized = detail.toLowerCase();
+  if (normalized.includes('api key not valid')) {
+    return 'invalid_api_key';
+  }
+  if (normalized.includes('not entitled') || normalized.includes('permission')) {
+    return 'permission_denied';
+  }
+  return DEFAULT_ERROR_CODE;
+}
+
+function buildUserMessage(code: string, detail?: string | null): string {
+  switch (code) {
+    case 'invalid_api_key':
+      return 'Invalid LLM token.';
+    case 'permission_denied':
+      return 'The LLM token has no permission for this model.';
+    default: {
+      const fallback = 'Failed to start the AI assistant.';
+      if (detail) {
+        return `${fallback} (${detail})`;
+      }
+      return fallback;
+    }
+  }
+}
+
+export function extractDispatchError(dispatches: AgentDispatch[]): DispatchErrorInfo | null {
+  const jobs = dispatches.flatMap((dispatch) => getJobs(dispatch));
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const sorted = [...jobs].sort((a, b) => pickTimestamp(getJobState(b)) - pickTimestamp(getJobState(a)));
+  const failed = sorted.find((job) => normalizeStatus(getJobState(job)?.status) === 'JS_FAILED');
+  if (!failed) {
+    return null;
+  }
+
+  const failedTimestamp = pickTimestamp(getJobState(failed));
+  const newerActiveJobExists = sorted.some((job) => {
+    if (job === failed) {
+      return false;
+    }
+    const state = getJobState(job);
+    const status = normalizeStatus(state?.status);
+    if (status !== 'JS_RUNNING' && status !== 'JS_PENDING') {
+      return false;
+    }
+    return pickTimestamp(state) >= failedTimestamp;
+  });
+  if (newerActiveJobExists) {
+    return null;
+  }
+
+  const state = getJobState(failed);
+  const detailRaw = state?.error;
+  const detail = typeof detailRaw === 'string' && detailRaw.trim() ? detailRaw.trim() : null;
+  const code = deriveErrorCode(detail);
+  return {
+    code,
+    message: buildUserMessage(code, detail),
+    detail,
+  };
+}
+
+/** Whether the agent `agentName` itself is in the room; other agents do not count. */
+export function hasAgentParticipant(
+  participants: DispatchedParticipant[],
+  agentName: string,
+  dispatches: AgentDispatch[],
+) {
+  return participants.some((participant) => isDispatchedAgent(participant, agentName, dispatches));
+}
+
+// Prefers the webhook-fed snapshot and only asks LiveKit when no snapshot exists yet.
+export async function isAgentPresent(
+  env: LiveKitAgentEnv,
+  context: DispatchContext,
+  room: string,
+  agentName: string,
+  dispatches: AgentDispatch[],
+) {
+  if (env.ROOM_STATE) {
+    try {
+      const snapshot = await readRoomState(env.ROOM_STATE, room);
+      if (snapshot) {
+        return hasAgentParticipant(snapshot.participants, agentName, dispatches);
+      }
+    } catch (error) {
+      console.warn('room state lookup failed', error);
+    }
+  }
+  return hasAgentParticipant(await listParticipants(context, room), agentName, dispatches);
+}
+
+export interface AgentStatusPayload {
+  status: 'ok';
+  active: boolean;
+  agentPresent: boolean;
+  dispatch: AgentDispatch | null;
+  total: number;
+  error: string | null;
+  errorCode: string | null;
+  errorDetail: string | null;
+  /** When the demo room's agent session runs out; null outside the demo room. */
+  demoEndsAt: number | null;
+}
+
+/** Builds the agent status reported by `GET /api/dispatch` and streamed by `/api/dispatch/events`. */
+export async function buildAgentStatus(
+  env: LiveKitAgentEnv,
+  room: string,
+  agentName: string,
+): Promise<AgentStatusPayload> {
+  const context = await buildDispatchContext(env, room);
+  const allDispatches = await listDispatches(context, room);
+  const normalized = normalizeAgentName(agentName);
+  const ours = allDispatches.filter(
+    (dispatch) => normalizeAgentName(dispatch.agentName) === normalized,
+  );
+  const active = ours.find(isActiveDispatch) ?? null;
+  const dispatchError = extractDispatchError(ours);
+  const agentPresent = await isAgentPresent(env, context, room, agentName, ours);
+  const demoEndsAt =
+    env.ROOM_STATE && isDemoRoom(env, room) ? await readDemoEndsAt(env.ROOM_STATE, room) : null;
+
+  return {
+    status: 'ok',
+    active: Boolean(active),
+    agentPresent,
+    dispatch: active,
+    total: ours.length,
+    error: dispatchError?.message ?? null,
+    errorCode: dispatchError?.code ?? null,
+    errorDetail: dispatchError?.detail ?? null,
+    demoEndsAt,
+  };
+}
+
+export interface StoredAgentStatus {
+  status: AgentStatusPayload;
+  /** The shared agent state the status was built from. */
+  shared: RoomAgentState | null;
+}
+
+/**
+ * The same status built from `ROOM_STATE` alone: the webhook-fed participant snapshot and the
+ * copy of the shared agent state `publishRoomAgentState` keeps. Returns null when the room has no
+ * snapshot yet, and the caller asks LiveKit instead. Dispatches are only known to LiveKit, so
+ * `dispatch` stays empty and a failed job shows up once a `GET /api/dispatch` published it.
+ */
+export async function readStoredAgentStatus(
+  env: LiveKitAgentEnv,
+  room: string,
+  agentName: string,
+): Promise<StoredAgentStatus | null> {
+  const kv = env.ROOM_STATE;
+  if (!kv) {
+    return null;
+  }
+  const [snapshot, shared, demoEndsAt] = await Promise.all([
+    readRoomState(kv, room),
+    readStoredRoomAgentState(kv, room),
+    isDemoRoom(env, room) ? readDemoEndsAt(kv, room) : null,
+  ]);
+  // Without dispatches, only the agent names the webhook recorded tell agents apart; an agent it
+  // could not name sends the caller to LiveKit like a missing snapshot does.
+  const unnamedAgent = snapshot?.participants.some(
+    (participant) => isAgentParticipant(participant) && !participant.agentName,
+  );
+  if (!snapshot || unnamedAgent) {
+    return null;
+  }
+
+  const agentPresent = hasAgentParticipant(snapshot.participants, agentName, []);
+  const errorCode = shared?.state === 'error' ? shared.errorCode : null;
+  return {
+    status: {
+      status: 'ok',
+      active: agentPresent || shared?.state === 'requesting',
+      agentPresent,
+      dispatch: null,
+      total: 0,
+      error: errorCode ? buildUserMessage(errorCode) : null,
+      errorCode,
+      errorDetail: null,
+      demoEndsAt,
+    },
+    shared,
+  };
+}
@@ -0,0 +1,113 @@
+import type { AgentCatalogEntry, LocalizedText } from '../../types/agent';
+import { isLlmProvider } from '../../types/llm';
+import type { LiveKitAgentEnv } from './env';
+
+const DEFAULT_AGENT_LABEL: LocalizedText = { uk: 'ШІ асистент', en: 'AI assistant' };
+const DEFAULT_AGENT_DESCRIPTION: LocalizedText = {
+  uk: 'Описує, що бачить камера, і відповідає на питання.',
+  en: 'Describes what the camera sees and answers questions.',
+};
+
+export function getConfiguredAgentName(env: LiveKitAgentEnv): string | undefined {
+  const candidate = env.LIVEKIT_AGENT_NAME ?? env.VOICE_AGENT_NAME;
+  return candidate && candidate.trim() ? candidate.trim() : undefined;
+}
+
+function readString(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readLocalizedText(value: unknown, fallback: LocalizedText): LocalizedText {
+  if (readString(value)) {
+    return { en: readString(value) };
+  }
+  if (!value || typeof value !== 'object') {
+    return fallback;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .map(([locale, text]) => [locale, readString(text)])
+    .filter(([, text]) => text !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) : fallback;
+}
+
+function readCatalogEntry(value: unknown): AgentCatalogEntry | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const name = readString(raw.name);
+  if (!name) {
+    return null;
+  }
+  const requiredProvider = readString(raw.requiredProvider) || null;
+  if (requiredProvider !== null && !isLlmProvider(requiredProvider)) {
+    console.warn(`Skipping agent ${name}: unknown provider ${requiredProvider}`);
+    return null;
+  }
+  const languages = Array.isArray(raw.languages) ? raw.languages.map(readString).filter(Boolean) : [];
+  return {
+    name,
+    label: readLocalizedText(raw.label, { en: name }),
+    description: readLocalizedText(raw.description, {}),
+    requiredProvider,
+    languages,
+  };
+}
+
+/**
+ * Agents people may invite. `LIVEKIT_AGENT_CATALOG` holds a JSON array of entries; without it the
+ * catalog is the single agent named by `LIVEKIT_AGENT_NAME`.
+ */
+export function loadAgentCatalog(env: LiveKitAgentEnv): AgentCatalogEntry[] {
+  const raw = env.LIVEKIT_AGENT_CATALOG?.trim();
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        const byName = new Map<string, AgentCatalogEntry>();
+        parsed.forEach((value) => {
+          const entry = readCatalogEntry(value);
+          if (entry && !byName.has(entry.name)) {
+            byName.set(entry.name, entry);
+          }
+        });
+        return [...byName.values()];
+      }
+    } catch (error) {
+      console.warn('Invalid LIVEKIT_AGENT_CATALOG', error);
+    }
+  }
+
+  const configured = getConfiguredAgentName(env);
+  if (!configured) {
+    return [];
+  }
+  return [
+    {
+      name: configured,
+      label: DEFAULT_AGENT_LABEL,
+      description: DEFAULT_AGENT_DESCRIPTION,
+      requiredProvider: 'gemini',
+      languages: ['uk', 'en'],
+    },
+  ];
+}
+
+/** The configured agent when the catalog lists it, otherwise the first entry. */
+export function getDefaultAgent(catalog: AgentCatalogEntry[], env: LiveKitAgentEnv) {
+  const configured = getConfiguredAgentName(env);
+  return catalog.find((entry) => entry.name === configured) ?? catalog[0] ?? null;
+}
+
+/**
+ * Picks the catalog entry for a requested agent name, or the default one when nothing was
+ * requested. Returns null for names outside the catalog.
+ */
+export function resolveAgent(env: LiveKitAgentEnv, requested?: string | null) {
+  const catalog = loadAgentCatalog(env);
+  const name = requested?.trim();
+  if (!name) {
+    return getDefaultAgent(catalog, env);
+  }
+  return catalog.find((entry) => entry.name === name) ?? null;
+}
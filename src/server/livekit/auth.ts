@@ -0,0 +1,44 @@
+import type { LiveKitEnv } from './env';
+import { verifyJwt, verifyParticipantToken } from './jwt';
+import type { VerifiedParticipant } from './jwt';
+
+export function readBearerToken(request: Request): string {
+  const authorization = request.headers.get('authorization') ?? '';
+  if (!authorization.toLowerCase().startsWith('bearer ')) {
+    return '';
+  }
+  return authorization.slice(7).trim();
+}
+
+/**
+ * Resolves the caller from the room token in the `Authorization` header. Returns null unless the
+ * token is valid and was issued for `room`.
+ */
+export async function authenticateParticipant(
+  request: Request,
+  env: LiveKitEnv,
+  room: string,
+): Promise<VerifiedParticipant | null> {
+  const token = readBearerToken(request);
+  if (!token) {
+    return null;
+  }
+  const participant = await verifyParticipantToken(env, token);
+  if (!participant || participant.room !== room) {
+    return null;
+  }
+  return participant;
+}
+
+/**
+ * Accepts server-side callers such as agents: a token signed with the API secret that carries the
+ * `roomAdmin` grant for `room`. Participant tokens never carry that grant.
+ */
+export async function authenticateRoomAdmin(request: Request, env: LiveKitEnv, room: string) {
+  const token = readBearerToken(request);
+  if (!token) {
+    return false;
+  }
+  const claims = await verifyJwt(token, env.LIVEKIT_API_SECRET, { issuer: env.LIVEKIT_API_KEY });
+  return Boolean(claims?.video?.roomAdmin && claims.video.room === room);
+}
@@ -0,0 +1,145 @@
+import { isAgentParticipant } from '../../types/participant';
+import { endExpiredDemoSession } from './demo-quota';
+import {
+  buildDispatchContext,
+  listDispatches,
+  listParticipants,
+  listRooms,
+  removeAgentDispatch,
+  removeParticipant,
+} from './dispatch';
+import type { DispatchContext, RoomParticipant } from './dispatch';
+import type { KeyValueNamespace, LiveKitAgentEnv } from './env';
+import { publishRoomAgentState } from './room-agent-state';
+import { isDemoRoom } from './rooms';
+
+export const DEFAULT_CLEANUP_IDLE_MINUTES = 5;
+// Marks outlive any sensible idle window, and vanish on their own for rooms that were closed.
+const IDLE_MARK_TTL_SECONDS = 60 * 60 * 24;
+
+export interface RoomCleanupResult {
+  room: string;
+  /** Agent names whose dispatches were deleted. */
+  agents: string[];
+  /** Agent participants actually removed from the room. */
+  participants: string[];
+}
+
+const idleMarkKey = (room: string) => `agent-idle-since:${room}`;
+
+export function resolveCleanupIdleMinutes(env: LiveKitAgentEnv) {
+  const configured = Number(env.AGENT_CLEANUP_IDLE_MINUTES);
+  if (Number.isFinite(configured) && configured >= 1) {
+    return Math.floor(configured);
+  }
+  return DEFAULT_CLEANUP_IDLE_MINUTES;
+}
+
+/**
+ * Removes the agent participants that deleting the dispatches did not already take with it, e.g.
+ * an agent whose dispatch is gone. Returns every identity removed, including `alreadyRemoved`.
+ */
+async function removeRemainingAgents(
+  context: DispatchContext,
+  room: string,
+  agents: RoomParticipant[],
+  alreadyRemoved: string[],
+) {
+  const remaining = agents
+    .map((participant) => participant.identity ?? '')
+    .filter((identity) => identity && !alreadyRemoved.includes(identity));
+  const kicked = await Promise.all(
+    remaining.map((identity) => removeParticipant(context, room, identity)),
+  );
+  return [...alreadyRemoved, ...remaining.filter((_, index) => kicked[index])];
+}
+
+/**
+ * Checks one room. A room holding an agent but no people gets an idle mark in KV on the first
+ * check; once the mark is older than `idleMs`, the agent's dispatches and participants are
+ * removed. Returns null when nothing was removed.
+ */
+async function cleanupRoom(
+  env: LiveKitAgentEnv,
+  kv: KeyValueNamespace,
+  room: string,
+  now: number,
+  idleMs: number,
+): Promise<RoomCleanupResult | null> {
+  const context = await buildDispatchContext(env, room);
+  const [dispatches, participants] = await Promise.all([
+    listDispatches(context, room),
+    listParticipants(context, room),
+  ]);
+  const agentNames = [
+    ...new Set(dispatches.map((dispatch) => dispatch.agentName?.trim() ?? '').filter(Boolean)),
+  ];
+  const isAgent = (participant: (typeof participants)[number]) =>
+    isAgentParticipant(participant) ||
+    agentNames.some((name) => isAgentParticipant(participant, name));
+  const agents = participants.filter(isAgent);
+  const humanPresent = participants.length > agents.length;
+
+  if (isDemoRoom(env, room)) {
+    const removed = await endExpiredDemoSession(env, kv, room, agentNames, now);
+    if (removed) {
+      const kicked = await removeRemainingAgents(context, room, agents, removed);
+      return { room, agents: agentNames, participants: kicked };
+    }
+  }
+
+  if (humanPresent || (agentNames.length === 0 && agents.length === 0)) {
+    await kv.delete(idleMarkKey(room));
+    return null;
+  }
+
+  const idleSince = Number(await kv.get(idleMarkKey(room)));
+  if (!Number.isFinite(idleSince) || idleSince <= 0) {
+    await kv.put(idleMarkKey(room), String(now), { expirationTtl: IDLE_MARK_TTL_SECONDS });
+    return null;
+  }
+  if (now - idleSince < idleMs) {
+    return null;
+  }
+
+  // removeAgentDispatch also kicks the agent participants it finds.
+  const removed: string[] = [];
+  for (const agentName of agentNames) {
+    removed.push(...(await removeAgentDispatch(env, room, agentName)).participants);
+  }
+  const kicked = await removeRemainingAgents(context, room, agents, removed);
+  await kv.delete(idleMarkKey(room));
+  await publishRoomAgentState(env, room, { state: 'idle', errorCode: null, changedBy: null });
+  return { room, agents: agentNames, participants: kicked };
+}
+
+/**
+ * Removes agents left behind in rooms nobody is in any more, e.g. after a browser tab died before
+ * it could send `DELETE /api/dispatch`. Rooms are checked one at a time to stay within the
+ * Workers subrequest limit; a failing room is logged and skipped.
+ */
+export async function cleanupOrphanedAgents(
+  env: LiveKitAgentEnv,
+  kv: KeyValueNamespace,
+  now = Date.now(),
+): Promise<RoomCleanupResult[]> {
+  const idleMs = resolveCleanupIdleMinutes(env) * 60 * 1000;
+  const rooms = await listRooms(await buildDispatchContext(env, '', { roomList: true }));
+  const removed: RoomCleanupResult[] = [];
+
+  for (const info of rooms) {
+    const room = info.name?.trim();
+    if (!room) {
+      continue;
+    }
+    try {
+      const result = await cleanupRoom(env, kv, room, now, idleMs);
+      if (result) {
+        removed.push(result);
+      }
+    } catch (error) {
+      console.warn(`agent cleanup failed for room ${room}`, error);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,25 @@
+import type { RuntimeConfigResponse } from '../../types/api';
+import type { LiveKitAgentEnv } from './env';
+import { getDefaultKeyProviders, getTokenlessRooms } from './rooms';
+
+function readPositiveNumber(value?: string) {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * The settings the client needs before it joins. Built from the same environment the other
+ * functions read, so the browser and the server can no longer disagree about which rooms are open.
+ */
+export function buildRuntimeConfig(env: LiveKitAgentEnv): RuntimeConfigResponse {
+  const { defaultRoom, demoRoom } = getTokenlessRooms(env);
+  return {
+    status: 'ok',
+    defaultRoom: defaultRoom || null,
+    demoRoom: demoRoom || null,
+    agentIdentity: (env.VITE_AGENT_IDENTITY ?? env.VOICE_AGENT_NAME)?.trim() || null,
+    defaultKeyProviders: getDefaultKeyProviders(env),
+    agentJoinTimeoutSeconds: readPositiveNumber(env.AGENT_JOIN_TIMEOUT_SECONDS),
+    agentInviteAttempts: readPositiveNumber(env.AGENT_INVITE_ATTEMPTS),
+  };
+}
@@ -0,0 +1,154 @@
+import { removeAgentDispatch } from './dispatch';
+import type { KeyValueNamespace, LiveKitAgentEnv } from './env';
+import { publishRoomAgentState } from './room-agent-state';
+
+export const DEFAULT_DEMO_SESSION_MINUTES = 10;
+export const DEFAULT_DEMO_SESSIONS_PER_IP = 3;
+export const DEFAULT_DEMO_SESSIONS_PER_DAY = 100;
+// Counters only matter for their own day; a second day covers every time zone edge.
+const COUNTER_TTL_SECONDS = 60 * 60 * 48;
+// Kept past the end so a late status check still finds the session and removes the agent.
+const SESSION_GRACE_SECONDS = 60 * 60;
+
+/** One time-limited agent session in the demo room, shared by everyone in it. */
+export interface DemoSession {
+  startedAt: number;
+  endsAt: number;
+  /** Set once the agent was removed for running out of time. */
+  ended?: boolean;
+}
+
+export type DemoSessionStart =
+  /** `running` is false for a new session, which `recordDemoSession` still has to count. */
+  | { ok: true; session: DemoSession; running: boolean }
+  | { ok: false; limit: 'ip' | 'day' };
+
+const sessionKey = (room: string) => `demo-session:${room}`;
+const dayKey = (day: string) => `demo-quota:${day}`;
+const ipKey = (day: string, ip: string) => `demo-quota:${day}:${ip}`;
+const dayOf = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+async function readCounts(kv: KeyValueNamespace, day: string, ip: string) {
+  const [dayCount, ipCount] = await Promise.all([
+    kv.get(dayKey(day)).then(Number),
+    kv.get(ipKey(day, ip)).then(Number),
+  ]);
+  return { dayCount, ipCount };
+}
+
+function readLimit(value: string | undefined, fallback: number) {
+  const configured = Number(value);
+  return Number.isFinite(configured) && configured >= 1 ? Math.floor(configured) : fallback;
+}
+
+export function resolveDemoLimits(env: LiveKitAgentEnv) {
+  return {
+    sessionMs: readLimit(env.DEMO_SESSION_MINUTES, DEFAULT_DEMO_SESSION_MINUTES) * 60 * 1000,
+    perIp: readLimit(env.DEMO_SESSIONS_PER_IP, DEFAULT_DEMO_SESSIONS_PER_IP),
+    perDay: readLimit(env.DEMO_SESSIONS_PER_DAY, DEFAULT_DEMO_SESSIONS_PER_DAY),
+  };
+}
+
+export async function readDemoSession(
+  kv: KeyValueNamespace,
+  room: string,
+): Promise<DemoSession | null> {
+  const raw = await kv.get(sessionKey(room));
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as DemoSession;
+    return typeof parsed.endsAt === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeDemoSession(kv: KeyValueNamespace, room: string, session: DemoSession) {
+  const ttlSeconds = Math.ceil((session.endsAt - Date.now()) / 1000) + SESSION_GRACE_SECONDS;
+  await kv.put(sessionKey(room), JSON.stringify(session), {
+    expirationTtl: Math.max(ttlSeconds, 60),
+  });
+}
+
+/**
+ * Joins the running demo session, or plans a new one when the caller's IP and the day still have
+ * quota. Nothing is counted here; `recordDemoSession` does that once the agent invite went through.
+ */
+export async function checkDemoSession(
+  env: LiveKitAgentEnv,
+  kv: KeyValueNamespace,
+  room: string,
+  ip: string,
+  now = Date.now(),
+): Promise<DemoSessionStart> {
+  const running = await readDemoSession(kv, room);
+  if (running && !running.ended && running.endsAt > now) {
+    return { ok: true, session: running, running: true };
+  }
+
+  const limits = resolveDemoLimits(env);
+  const { dayCount, ipCount } = await readCounts(kv, dayOf(now), ip);
+  if (dayCount >= limits.perDay) {
+    return { ok: false, limit: 'day' };
+  }
+  if (ipCount >= limits.perIp) {
+    return { ok: false, limit: 'ip' };
+  }
+  return { ok: true, session: { startedAt: now, endsAt: now + limits.sessionMs }, running: false };
+}
+
+/**
+ * Stores a new session and counts it against the caller's IP and the day. KV has no atomic
+ * increment, so the counters are approximate: invites from different locations can overwrite
+ * each other's count within KV's propagation delay and slip a few sessions past a limit. The room
+ * lease keeps invites for the demo room itself in order; the quotas cap the cost of the default
+ * key, they are not exact counts.
+ */
+export async function recordDemoSession(
+  kv: KeyValueNamespace,
+  room: string,
+  ip: string,
+  session: DemoSession,
+) {
+  const day = dayOf(session.startedAt);
+  const { dayCount, ipCount } = await readCounts(kv, day, ip);
+  await Promise.all([
+    kv.put(dayKey(day), String(dayCount + 1), { expirationTtl: COUNTER_TTL_SECONDS }),
+    kv.put(ipKey(day, ip), String(ipCount + 1), { expirationTtl: COUNTER_TTL_SECONDS }),
+    writeDemoSession(kv, room, session),
+  ]);
+}
+
+/** When the running demo session ends, or null when none is running. */
+export async function readDemoEndsAt(kv: KeyValueNamespace, room: string) {
+  const session = await readDemoSession(kv, room);
+  return session && !session.ended ? session.endsAt : null;
+}
+
+/**
+ * Removes the agent once the demo session ran out. Called wherever the room's status is checked
+ * (`GET /api/dispatch`, the status stream and the cleanup worker), so the agent goes even when
+ * every browser in the room was closed. Returns the agent participants it removed, or null when
+ * no session ran out.
+ */
+export async function endExpiredDemoSession(
+  env: LiveKitAgentEnv,
+  kv: KeyValueNamespace,
+  room: string,
+  agentNames: string[],
+  now = Date.now(),
+): Promise<string[] | null> {
+  const session = await readDemoSession(kv, room);
+  if (!session || session.ended || session.endsAt > now) {
+    return null;
+  }
+  const removed: string[] = [];
+  for (const agentName of agentNames) {
+    removed.push(...(await removeAgentDispatch(env, room, agentName)).participants);
+  }
+  await writeDemoSession(kv, room, { ...session, ended: true });
+  await publishRoomAgentState(env, room, { state: 'idle', errorCode: null, changedBy: null });
+  return removed;
+}
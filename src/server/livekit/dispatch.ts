@@ -1,5 +1,9 @@
 import type { LiveKitEnv } from './env';
 import { createRoomAdminJwt, toHttpUrl } from './jwt';
+import type { ParticipantAccess, VideoGrant } from './jwt';
+import { callTwirp, isTwirpNotFound } from './twirp';
+import { isAgentParticipant } from '../../types/participant';
+import type { ParticipantLike } from '../../types/participant';
 
 export interface DispatchContext {
   baseUrl: string;
@@ -20,28 +24,48 @@ export interface AgentDispatch {
 
 export interface RoomParticipant {
   identity?: string;
+  name?: string;
+  kind?: string | number;
+  metadata?: string;
+  attributes?: Record<string, string>;
   state?: Record<string, unknown> | null;
+  /** What the participant may do now; LiveKit's JSON leaves out flags that are false. */
+  permission?: ParticipantAccess | null;
 }
 
-function normalizeAgentName(name?: string | null): string {
-  return (name ?? '').trim().toLowerCase();
+export interface LiveKitRoomInfo {
+  sid?: string;
+  name?: string;
+  emptyTimeout?: number;
+  maxParticipants?: number;
+  creationTime?: string | number;
+  metadata?: string;
+  numParticipants?: number;
 }
 
-async function parseJson<T>(res: Response): Promise<T> {
-  const text = await res.text();
-  if (!text.trim()) {
-    return {} as T;
-  }
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    throw new Error(`Unexpected response: ${text}`);
-  }
+export interface UpdateParticipantOptions {
+  permission?: ParticipantAccess;
+  metadata?: string;
+}
+
+export interface CreateRoomOptions {
+  emptyTimeout?: number;
+  maxParticipants?: number;
+  metadata?: string;
+}
+
+/** Agent names compare this way wherever dispatches and participants are matched to an agent. */
+export function normalizeAgentName(name?: string | null): string {
+  return (name ?? '').trim().toLowerCase();
 }
 
-export async function buildDispatchContext(env: LiveKitEnv, room: string): Promise<DispatchContext> {
+export async function buildDispatchContext(
+  env: LiveKitEnv,
+  room: string,
+  extraGrants?: VideoGrant,
+): Promise<DispatchContext> {
   const baseUrl = toHttpUrl(env.LIVEKIT_URL);
-  const token = await createRoomAdminJwt(env, room);
+  const token = await createRoomAdminJwt(env, room, undefined, extraGrants);
   const headers = {
     'content-type': 'application/json',
     Authorization: `Bearer ${token}`,
@@ -50,23 +74,64 @@ export async function buildDispatchContext(env: LiveKitEnv, room: string): Promi
 }
 
 export async function listDispatches(context: DispatchContext, room: string): Promise<AgentDispatch[]> {
-  const listRes = await fetch(`${context.baseUrl}/twirp/livekit.AgentDispatchService/ListDispatch`, {
-    method: 'POST',
-    headers: context.headers,
-    body: JSON.stringify({ room }),
-  });
-
-  if (!listRes.ok && listRes.status !== 404) {
-    const errBody = await listRes.text();
-    throw new Error(errBody || `ListDispatch failed with status ${listRes.status}`);
+  try {
+    const data = await callTwirp(context, 'livekit.AgentDispatchService', 'ListDispatch', { room }, { idempotent: true });
+    return data.agentDispatches ?? [];
+  } catch (error) {
+    if (isTwirpNotFound(error)) {
+      return [];
+    }
+    throw error;
   }
+}
 
-  if (!listRes.ok) {
-    return [];
+// Each job records the identity its agent joined the room under.
+function readJobParticipants(dispatches: AgentDispatch[]): string[] {
+  return dispatches.flatMap((dispatch) =>
+    (dispatch.state?.jobs ?? []).flatMap((job) => {
+      const state = job.state as Record<string, unknown> | null | undefined;
+      const identity = state?.participantIdentity ?? state?.participant_identity;
+      return typeof identity === 'string' && identity ? [identity] : [];
+    }),
+  );
+}
+
+/** A participant together with the agent name the room snapshot recorded for it, if any. */
+export interface DispatchedParticipant extends ParticipantLike {
+  agentName?: string | null;
+}
+
+/**
+ * True when `participant` is the agent `agentName` itself rather than some other agent in the
+ * room: the snapshot recorded that name for it, or one of the agent's dispatches started it.
+ * Servers too old to report `kind` fall back to an identity equal to the name.
+ */
+export function isDispatchedAgent(
+  participant: DispatchedParticipant,
+  agentName: string,
+  dispatches: AgentDispatch[],
+): boolean {
+  if (!isAgentParticipant(participant, agentName)) {
+    return false;
   }
+  const normalized = normalizeAgentName(agentName);
+  if (participant.agentName) {
+    return normalizeAgentName(participant.agentName) === normalized;
+  }
+  const identity = participant.identity?.trim() ?? '';
+  if (identity === agentName.trim()) {
+    return true;
+  }
+  const ours = dispatches.filter(
+    (dispatch) => normalizeAgentName(dispatch.agentName) === normalized,
+  );
+  return readJobParticipants(ours).includes(identity);
+}
 
-  const data = await parseJson<{ agentDispatches?: AgentDispatch[] }>(listRes);
-  return data.agentDispatches ?? [];
+/** Name of the agent whose job started the participant `identity`, or null. */
+export function findDispatchedAgentName(dispatches: AgentDispatch[], identity: string) {
+  const dispatch = dispatches.find((item) => readJobParticipants([item]).includes(identity));
+  return dispatch?.agentName ?? null;
 }
 
 export async function listAgentDispatches(context: DispatchContext, room: string, agentName: string) {
@@ -81,55 +146,48 @@ export async function createAgentDispatch(
   agentName: string,
   metadata?: string,
 ) {
-  const response = await fetch(`${context.baseUrl}/twirp/livekit.AgentDispatchService/CreateDispatch`, {
-    method: 'POST',
-    headers: context.headers,
-    body: JSON.stringify({
-      room,
-      agentName,
-      metadata,
-    }),
+  // Not retried: a timed-out attempt may still have created the dispatch.
+  const dispatch = await callTwirp(context, 'livekit.AgentDispatchService', 'CreateDispatch', {
+    room,
+    agentName,
+    metadata,
   });
-
-  if (!response.ok) {
-    const errBody = await response.text();
-    throw new Error(errBody || `CreateDispatch failed with status ${response.status}`);
-  }
-
-  const data = await parseJson<{ agentDispatch?: AgentDispatch }>(response);
-  return data.agentDispatch ?? null;
+  return dispatch.id ? dispatch : null;
 }
 
 export async function deleteAgentDispatch(context: DispatchContext, room: string, id: string) {
-  const res = await fetch(`${context.baseUrl}/twirp/livekit.AgentDispatchService/DeleteDispatch`, {
-    method: 'POST',
-    headers: context.headers,
-    body: JSON.stringify({ room, dispatchId: id }),
-  });
-
-  if (!res.ok && res.status !== 404) {
-    const errBody = await res.text();
-    throw new Error(errBody || `DeleteDispatch failed with status ${res.status}`);
+  try {
+    await callTwirp(
+      context,
+      'livekit.AgentDispatchService',
+      'DeleteDispatch',
+      { room, dispatchId: id },
+      { idempotent: true },
+    );
+  } catch (error) {
+    if (!isTwirpNotFound(error)) {
+      throw error;
+    }
   }
 }
 
+/** True when this call removed the participant; false when it was gone or removal failed. */
 export async function removeParticipant(context: DispatchContext, room: string, identity: string) {
-  const res = await fetch(`${context.baseUrl}/twirp/livekit.RoomService/RemoveParticipant`, {
-    method: 'POST',
-    headers: context.headers,
-    body: JSON.stringify({ room, identity }),
-  });
-
-  if (!res.ok && res.status !== 404) {
-    // Log but don't fail the whole operation, as participant might already be gone
-    const errBody = await res.text();
-    console.warn(`RemoveParticipant failed: ${errBody}`);
+  try {
+    await callTwirp(context, 'livekit.RoomService', 'RemoveParticipant', { room, identity }, { idempotent: true });
+    return true;
+  } catch (error) {
+    if (!isTwirpNotFound(error)) {
+      // Log but don't fail the whole operation, as participant might already be gone
+      console.warn('RemoveParticipant failed', error);
+    }
+    return false;
   }
 }
 
 export async function removeAgentDispatch(env: LiveKitEnv, room: string, agentName: string) {
   const context = await buildDispatchContext(env, room);
-  
+
   // 1. Kill the dispatch record
   const allDispatches = await listDispatches(context, room);
   const normalized = normalizeAgentName(agentName);
@@ -142,43 +200,101 @@ export async function removeAgentDispatch(env: LiveKitEnv, room: string, agentNa
   );
 
   // 2. Find and Kick the actual participant(s)
-  // We can't rely solely on 'agentName' because the actual identity might differ (e.g. "agent-xyz")
+  // Agent identities are assigned per job, so match them through the jobs, not the name.
   const participants = await listParticipants(context, room);
-  const agentParticipants = participants.filter(p => {
-      const id = (p.identity || '').trim();
-      const lowerId = id.toLowerCase();
-      // Match exact config name OR standard "agent-" prefix which implies a bot
-      return lowerId === normalized || lowerId.startsWith('agent-');
-  });
-
-  await Promise.all(
-      agentParticipants.map(p => {
-          if (p.identity) {
-              return removeParticipant(context, room, p.identity);
-          }
-          return Promise.resolve();
-      })
+  const identities = participants
+    .filter((p) => isDispatchedAgent(p, agentName, matches))
+    .map((p) => p.identity ?? '')
+    .filter(Boolean);
+  const kicked = await Promise.all(
+    identities.map((identity) => removeParticipant(context, room, identity)),
   );
 
-  return { removed: matches.length };
+  // `participants` lists only the identities this call actually removed.
+  return { removed: matches.length, participants: identities.filter((_, index) => kicked[index]) };
 }
 
 export async function listParticipants(context: DispatchContext, room: string): Promise<RoomParticipant[]> {
-  const res = await fetch(`${context.baseUrl}/twirp/livekit.RoomService/ListParticipants`, {
-    method: 'POST',
-    headers: context.headers,
-    body: JSON.stringify({ room }),
-  });
-
-  if (!res.ok && res.status !== 404) {
-    const errBody = await res.text();
-    throw new Error(errBody || `ListParticipants failed with status ${res.status}`);
+  try {
+    const data = await callTwirp(context, 'livekit.RoomService', 'ListParticipants', { room }, { idempotent: true });
+    return data.participants ?? [];
+  } catch (error) {
+    if (isTwirpNotFound(error)) {
+      return [];
+    }
+    throw error;
   }
+}
 
-  if (!res.ok) {
-    return [];
+/** The participant as LiveKit sees it now, or null when it is not in the room. */
+export async function getParticipant(
+  context: DispatchContext,
+  room: string,
+  identity: string,
+): Promise<RoomParticipant | null> {
+  try {
+    return await callTwirp(
+      context,
+      'livekit.RoomService',
+      'GetParticipant',
+      { room, identity },
+      { idempotent: true },
+    );
+  } catch (error) {
+    if (isTwirpNotFound(error)) {
+      return null;
+    }
+    throw error;
   }
+}
+
+export async function listRooms(context: DispatchContext, names?: string[]): Promise<LiveKitRoomInfo[]> {
+  const data = await callTwirp(context, 'livekit.RoomService', 'ListRooms', { names }, { idempotent: true });
+  return data.rooms ?? [];
+}
+
+export async function updateRoomMetadata(context: DispatchContext, room: string, metadata: string) {
+  return callTwirp(
+    context,
+    'livekit.RoomService',
+    'UpdateRoomMetadata',
+    { room, metadata },
+    { idempotent: true },
+  );
+}
+
+export async function createRoom(context: DispatchContext, room: string, options: CreateRoomOptions = {}) {
+  // CreateRoom returns the existing room for a known name, so it is safe to retry.
+  return callTwirp(context, 'livekit.RoomService', 'CreateRoom', { name: room, ...options }, { idempotent: true });
+}
+
+export async function mutePublishedTrack(
+  context: DispatchContext,
+  room: string,
+  identity: string,
+  trackSid: string,
+  muted = true,
+) {
+  await callTwirp(
+    context,
+    'livekit.RoomService',
+    'MutePublishedTrack',
+    { room, identity, trackSid, muted },
+    { idempotent: true },
+  );
+}
 
-  const data = await parseJson<{ participants?: RoomParticipant[] }>(res);
-  return data.participants ?? [];
+export async function updateParticipant(
+  context: DispatchContext,
+  room: string,
+  identity: string,
+  { permission, metadata }: UpdateParticipantOptions,
+) {
+  return callTwirp(
+    context,
+    'livekit.RoomService',
+    'UpdateParticipant',
+    { room, identity, permission, metadata },
+    { idempotent: true },
+  );
 }
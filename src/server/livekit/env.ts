@@ -1,14 +1,56 @@
+/** The subset of a Workers KV namespace the functions rely on. */
+export interface KeyValueNamespace {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
 export interface LiveKitEnv {
   LIVEKIT_API_KEY: string;
   LIVEKIT_API_SECRET: string;
   LIVEKIT_URL: string;
+  /** Lifetime of participant tokens in seconds; defaults to 15 minutes. */
+  LIVEKIT_TOKEN_TTL_SECONDS?: string;
+  /** Seconds an empty room is kept before LiveKit closes it; defaults to 10 minutes. */
+  LIVEKIT_ROOM_EMPTY_TIMEOUT_SECONDS?: string;
+  /** Participant cap for rooms created through `/api/rooms`, agent included; defaults to 8. */
+  LIVEKIT_ROOM_MAX_PARTICIPANTS?: string;
 }
 
 export interface LiveKitAgentEnv extends LiveKitEnv {
   LIVEKIT_AGENT_NAME?: string;
   VOICE_AGENT_NAME?: string;
+  /** JSON array of agent catalog entries served by `/api/agents`. */
+  LIVEKIT_AGENT_CATALOG?: string;
+  /** Comma-separated LLM providers the agent has its own key for, e.g. `gemini,openai`. */
+  LLM_DEFAULT_KEY_PROVIDERS?: string;
+  /** Gemini key used in the default and demo rooms when the caller brings none. Never served. */
+  LLM_DEFAULT_TOKEN?: string;
+  /** Former name of `LLM_DEFAULT_TOKEN`, still read so existing deployments keep working. */
+  VITE_DEFAULT_LLM_TOKEN?: string;
   VITE_DEFAULT_ROOM?: string;
   VOICE_AGENT_DEFAULT_ROOM?: string;
   VITE_DEMO_ROOM?: string;
   VOICE_AGENT_DEMO_ROOM?: string;
+  VITE_AGENT_IDENTITY?: string;
+  /** Seconds the browser waits for an invited agent to join; see `/api/config`. */
+  AGENT_JOIN_TIMEOUT_SECONDS?: string;
+  /** Invites the browser sends before it reports that no agent worker answered. */
+  AGENT_INVITE_ATTEMPTS?: string;
+  /** Per-room state: webhook snapshots, invite leases and idempotent dispatch results. */
+  ROOM_STATE?: KeyValueNamespace;
+  /** Encrypted LLM keys, stored by `/api/dispatch` and redeemed by the agent. */
+  SECRET_VAULT?: KeyValueNamespace;
+  /** Server secret the vault derives its AES-GCM key from. */
+  SECRET_VAULT_KEY?: string;
+  /** How long a stored key stays usable in seconds; defaults to 7 days. */
+  SECRET_VAULT_TTL_SECONDS?: string;
+  /** Minutes a room may hold an agent but no people before the cleanup worker removes it. */
+  AGENT_CLEANUP_IDLE_MINUTES?: string;
+  /** Minutes one agent session in the demo room lasts; defaults to 10. */
+  DEMO_SESSION_MINUTES?: string;
+  /** Demo sessions one IP address may start per UTC day; defaults to 3. */
+  DEMO_SESSIONS_PER_IP?: string;
+  /** Demo sessions all visitors together may start per UTC day; defaults to 100. */
+  DEMO_SESSIONS_PER_DAY?: string;
 }
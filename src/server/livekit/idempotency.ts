@@ -0,0 +1,40 @@
+import type { KeyValueNamespace } from './env';
+
+const IDEMPOTENCY_TTL_SECONDS = 60 * 10;
+const MAX_KEY_LENGTH = 128;
+
+const resultKey = (room: string, key: string) => `idempotency:${room}:${key}`;
+
+/** The request's `Idempotency-Key` header, or null when missing or unreasonably long. */
+export function readIdempotencyKey(request: Request): string | null {
+  const key = request.headers.get('idempotency-key')?.trim();
+  return key && key.length <= MAX_KEY_LENGTH ? key : null;
+}
+
+/** The response body stored for an earlier request with the same key, if any. */
+export async function readIdempotentResult<T>(
+  kv: KeyValueNamespace,
+  room: string,
+  key: string,
+): Promise<T | null> {
+  const raw = await kv.get(resultKey(room, key));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function storeIdempotentResult(
+  kv: KeyValueNamespace,
+  room: string,
+  key: string,
+  result: unknown,
+) {
+  await kv.put(resultKey(room, key), JSON.stringify(result), {
+    expirationTtl: IDEMPOTENCY_TTL_SECONDS,
+  });
+}
@@ -0,0 +1,28 @@
+import type { LiveKitEnv } from './env';
+import { signHmac } from './jwt';
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+const MAX_DISPLAY_NAME_LENGTH = 64;
+
+export function normalizeDeviceId(value?: string | null): string | null {
+  const trimmed = value?.trim() ?? '';
+  return DEVICE_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+export function createDeviceId() {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+export function normalizeDisplayName(value?: string | null, fallback = 'user') {
+  const collapsed = (value ?? '').replace(/\s+/g, ' ').trim();
+  return collapsed ? collapsed.slice(0, MAX_DISPLAY_NAME_LENGTH) : fallback;
+}
+
+/**
+ * Derives the LiveKit identity from the caller's device ID. The identity is visible to everyone
+ * in the room, so it is keyed with the API secret to keep the device ID itself private.
+ */
+export async function deriveParticipantIdentity(env: LiveKitEnv, deviceId: string) {
+  const digest = await signHmac(env.LIVEKIT_API_SECRET, `meet-identity.${deviceId}`);
+  return `user-${digest.slice(0, 22)}`;
+}
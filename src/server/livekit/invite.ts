@@ -0,0 +1,97 @@
+import type { LiveKitEnv } from './env';
+import { normalizeDisplayName } from './identity';
+import { base64url, decodeBase64urlText, isParticipantRole, signHmac, timingSafeEqual } from './jwt';
+import type { ParticipantRole } from './jwt';
+
+export const DEFAULT_INVITE_TTL_SECONDS = 60 * 60 * 24;
+
+/** Optional one-tap join details, signed along with the rest of the invite. */
+export interface InviteDetails {
+  /** Display name the recipient joins with; `/api/token` ignores any other name. */
+  name?: string;
+  locale?: 'uk' | 'en';
+  /** Skip the join form: the link only asks for a single "Start" press. */
+  autoJoin?: boolean;
+}
+
+export interface InviteClaims extends InviteDetails {
+  /** Random per invite, so a host can revoke this link without touching others for the room. */
+  id?: string;
+  room: string;
+  role: ParticipantRole;
+  exp: number;
+}
+
+// Prefix keeps invite signatures from ever matching a LiveKit JWT signed with the same secret.
+const signingInput = (payload: string) => `meet-invite.${payload}`;
+
+export async function createInvite(
+  env: LiveKitEnv,
+  room: string,
+  role: ParticipantRole,
+  details: InviteDetails = {},
+  ttlSeconds = DEFAULT_INVITE_TTL_SECONDS,
+) {
+  const claims: InviteClaims = {
+    id: crypto.randomUUID(),
+    room,
+    role,
+    ...readInviteDetails(details),
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const payload = base64url(JSON.stringify(claims));
+  const signature = await signHmac(env.LIVEKIT_API_SECRET, signingInput(payload));
+  return { invite: `${payload}.${signature}`, claims };
+}
+
+/** Keeps the valid details only; anything else is dropped rather than rejected. */
+export function readInviteDetails(value: object): InviteDetails {
+  const raw = value as Record<string, unknown>;
+  const details: InviteDetails = {};
+  if (typeof raw.name === 'string' && raw.name.trim()) {
+    details.name = normalizeDisplayName(raw.name);
+  }
+  if (raw.locale === 'uk' || raw.locale === 'en') {
+    details.locale = raw.locale;
+  }
+  if (raw.autoJoin === true) {
+    details.autoJoin = true;
+  }
+  return details;
+}
+
+export async function verifyInvite(env: LiveKitEnv, invite?: string | null): Promise<InviteClaims | null> {
+  const [payload, signature, ...rest] = (invite ?? '').trim().split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = await signHmac(env.LIVEKIT_API_SECRET, signingInput(payload));
+  if (!timingSafeEqual(expected, signature)) {
+    return null;
+  }
+
+  let parsed: Partial<InviteClaims>;
+  try {
+    parsed = JSON.parse(decodeBase64urlText(payload)) as Partial<InviteClaims>;
+  } catch {
+    return null;
+  }
+
+  const room = typeof parsed.room === 'string' ? parsed.room.trim() : '';
+  if (!room || !isParticipantRole(parsed.role) || typeof parsed.exp !== 'number') {
+    return null;
+  }
+  if (parsed.exp <= Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  return {
+    // Invites signed before ids existed have none and can only expire.
+    id: typeof parsed.id === 'string' && parsed.id ? parsed.id : undefined,
+    room,
+    role: parsed.role,
+    ...readInviteDetails(parsed),
+    exp: parsed.exp,
+  };
+}
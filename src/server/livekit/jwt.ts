@@ -18,6 +18,31 @@ export const base64url = (source: string | ArrayBuffer | Uint8Array) => {
   return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 };
 
+export const decodeBase64url = (input: string) => {
+  const normalized = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const decodeBase64urlText = (input: string) => new TextDecoder().decode(decodeBase64url(input));
+
+// Compares two signatures without short-circuiting on the first mismatch.
+export function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 export async function signHmac(secret: string, input: string) {
   const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
     'sign',
@@ -32,57 +57,250 @@ export function toHttpUrl(url: string) {
   return url;
 }
 
-export async function createRoomAdminJwt(env: LiveKitEnv, room: string, ttlSeconds = 60 * 5) {
-  const now = Math.floor(Date.now() / 1000);
+export interface VideoGrant {
+  room?: string;
+  roomJoin?: boolean;
+  roomAdmin?: boolean;
+  roomCreate?: boolean;
+  roomList?: boolean;
+  canPublish?: boolean;
+  canSubscribe?: boolean;
+  canPublishData?: boolean;
+}
+
+export interface LiveKitClaims {
+  iss: string;
+  sub: string;
+  aud?: string;
+  iat?: number;
+  nbf?: number;
+  exp: number;
+  name?: string;
+  metadata?: string;
+  attributes?: Record<string, string>;
+  video?: VideoGrant;
+  /** Our own claim, ignored by LiveKit: refreshes never reach past it (the invite's expiry). */
+  refreshUntil?: number;
+}
+
+export interface DecodedJwt<T = LiveKitClaims> {
+  header: { alg?: string; typ?: string };
+  claims: T;
+  signingInput: string;
+  signature: string;
+}
+
+async function signJwt(secret: string, claims: object) {
   const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const payload = base64url(
-    JSON.stringify({
-      iss: env.LIVEKIT_API_KEY,
-      sub: env.LIVEKIT_API_KEY,
-      aud: 'livekit',
-      iat: now,
-      exp: now + ttlSeconds,
-      video: {
-        room,
-        roomAdmin: true,
-      },
-    }),
-  );
+  const payload = base64url(JSON.stringify(claims));
   const toSign = `${header}.${payload}`;
-  const signature = await signHmac(env.LIVEKIT_API_SECRET, toSign);
+  const signature = await signHmac(secret, toSign);
   return `${toSign}.${signature}`;
 }
 
+/** Splits and parses a JWT without checking its signature. Returns null for malformed input. */
+export function decodeJwt<T = LiveKitClaims>(token: string): DecodedJwt<T> | null {
+  const [header, payload, signature, ...rest] = token.trim().split('.');
+  if (!header || !payload || !signature || rest.length > 0) {
+    return null;
+  }
+  try {
+    const parsedHeader = JSON.parse(decodeBase64urlText(header));
+    const claims = JSON.parse(decodeBase64urlText(payload));
+    if (!parsedHeader || typeof parsedHeader !== 'object' || !claims || typeof claims !== 'object') {
+      return null;
+    }
+    return { header: parsedHeader, claims: claims as T, signingInput: `${header}.${payload}`, signature };
+  } catch {
+    return null;
+  }
+}
+
+export interface VerifyJwtOptions {
+  /** Expected `aud`; LiveKit tokens use `livekit`. */
+  audience?: string;
+  issuer?: string;
+  /** Accept tokens this many seconds past `exp` (and before `nbf`). */
+  leewaySeconds?: number;
+}
+
+/**
+ * Verifies an HS256 JWT and returns its claims, or null when the signature, expiry, not-before,
+ * audience or issuer does not check out.
+ */
+export async function verifyJwt<T extends { exp?: number; nbf?: number; aud?: string; iss?: string } = LiveKitClaims>(
+  token: string,
+  secret: string,
+  { audience, issuer, leewaySeconds = 0 }: VerifyJwtOptions = {},
+): Promise<T | null> {
+  const decoded = decodeJwt<T>(token);
+  if (!decoded || decoded.header.alg !== 'HS256') {
+    return null;
+  }
+
+  const expected = await signHmac(secret, decoded.signingInput);
+  if (!timingSafeEqual(expected, decoded.signature)) {
+    return null;
+  }
+
+  const { claims } = decoded;
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + leewaySeconds <= now) {
+    return null;
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - leewaySeconds > now) {
+    return null;
+  }
+  if (audience !== undefined && claims.aud !== audience) {
+    return null;
+  }
+  if (issuer !== undefined && claims.iss !== issuer) {
+    return null;
+  }
+  return claims;
+}
+
+export async function createRoomAdminJwt(
+  env: LiveKitEnv,
+  room: string,
+  ttlSeconds = 60 * 5,
+  extraGrants: VideoGrant = {},
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: LiveKitClaims = {
+    iss: env.LIVEKIT_API_KEY,
+    sub: env.LIVEKIT_API_KEY,
+    aud: 'livekit',
+    iat: now,
+    exp: now + ttlSeconds,
+    video: {
+      room,
+      roomAdmin: true,
+      ...extraGrants,
+    },
+  };
+  return signJwt(env.LIVEKIT_API_SECRET, claims);
+}
+
 export interface ParticipantAccess {
   canPublish?: boolean;
   canSubscribe?: boolean;
   canPublishData?: boolean;
 }
 
+export type ParticipantRole = 'host' | 'helper' | 'viewer';
+
+export const PARTICIPANT_ROLES: ParticipantRole[] = ['host', 'helper', 'viewer'];
+
+export const ROLE_ACCESS: Record<ParticipantRole, ParticipantAccess> = {
+  host: { canPublish: true, canSubscribe: true, canPublishData: true },
+  helper: { canPublish: true, canSubscribe: true, canPublishData: true },
+  viewer: { canPublish: false, canSubscribe: true, canPublishData: false },
+};
+
+export function isParticipantRole(value: unknown): value is ParticipantRole {
+  return typeof value === 'string' && (PARTICIPANT_ROLES as string[]).includes(value);
+}
+
+export const DEFAULT_PARTICIPANT_TOKEN_TTL_SECONDS = 60 * 15;
+
+export function resolveParticipantTokenTtl(env: LiveKitEnv) {
+  const configured = Number(env.LIVEKIT_TOKEN_TTL_SECONDS);
+  if (Number.isFinite(configured) && configured >= 60) {
+    return Math.floor(configured);
+  }
+  return DEFAULT_PARTICIPANT_TOKEN_TTL_SECONDS;
+}
+
+export interface ParticipantTokenOptions {
+  ttlSeconds?: number;
+  role?: ParticipantRole;
+  /** Human-readable name shown to other participants; `identity` stays the unique key. */
+  name?: string;
+  metadata?: string;
+  /** Grants to use instead of the role's defaults, e.g. what a host left a participant with. */
+  access?: ParticipantAccess;
+  /** Unix time the token and its refreshes may not outlive. */
+  refreshUntil?: number;
+}
+
 export async function createParticipantToken(
   env: LiveKitEnv,
   room: string,
   identity: string,
-  ttlSeconds = 60 * 15,
-  access: ParticipantAccess = { canPublish: true, canSubscribe: true, canPublishData: true },
+  {
+    ttlSeconds = resolveParticipantTokenTtl(env),
+    role = 'helper',
+    name,
+    metadata,
+    access = ROLE_ACCESS[role],
+    refreshUntil,
+  }: ParticipantTokenOptions = {},
 ) {
   const now = Math.floor(Date.now() / 1000);
-  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const payload = base64url(
-    JSON.stringify({
-      iss: env.LIVEKIT_API_KEY,
-      sub: identity,
-      aud: 'livekit',
-      iat: now,
-      exp: now + ttlSeconds,
-      video: {
-        room,
-        roomJoin: true,
-        ...access,
-      },
-    }),
-  );
-  const toSign = `${header}.${payload}`;
-  const signature = await signHmac(env.LIVEKIT_API_SECRET, toSign);
-  return `${toSign}.${signature}`;
+  const exp =
+    refreshUntil === undefined ? now + ttlSeconds : Math.min(now + ttlSeconds, refreshUntil);
+  const claims: LiveKitClaims = {
+    iss: env.LIVEKIT_API_KEY,
+    sub: identity,
+    name,
+    metadata,
+    aud: 'livekit',
+    iat: now,
+    exp,
+    video: {
+      room,
+      roomJoin: true,
+      ...access,
+    },
+    attributes: {
+      role,
+    },
+    refreshUntil,
+  };
+  return signJwt(env.LIVEKIT_API_SECRET, claims);
+}
+
+export interface VerifiedParticipant {
+  identity: string;
+  name?: string;
+  metadata?: string;
+  room: string;
+  role: ParticipantRole;
+  exp: number;
+  refreshUntil?: number;
+}
+
+/**
+ * Checks a participant token issued by {@link createParticipantToken}. `leewaySeconds` lets a
+ * just-expired token through so a client that slept past `exp` can still refresh it.
+ */
+export async function verifyParticipantToken(
+  env: LiveKitEnv,
+  token: string,
+  leewaySeconds = 0,
+): Promise<VerifiedParticipant | null> {
+  const claims = await verifyJwt(token, env.LIVEKIT_API_SECRET, {
+    audience: 'livekit',
+    issuer: env.LIVEKIT_API_KEY,
+    leewaySeconds,
+  });
+  if (!claims || typeof claims.sub !== 'string' || !claims.sub) {
+    return null;
+  }
+  const video = claims.video;
+  if (video?.roomJoin !== true || typeof video.room !== 'string' || !video.room) {
+    return null;
+  }
+
+  const role = claims.attributes?.role;
+  return {
+    identity: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    metadata: typeof claims.metadata === 'string' ? claims.metadata : undefined,
+    room: video.room,
+    role: isParticipantRole(role) ? role : 'helper',
+    exp: claims.exp,
+    refreshUntil: typeof claims.refreshUntil === 'number' ? claims.refreshUntil : undefined,
+  };
 }
@@ -0,0 +1,55 @@
+import type { KeyValueNamespace } from './env';
+
+// KV refuses TTLs under a minute, so the value carries its own, shorter expiry.
+const LEASE_KV_TTL_SECONDS = 60;
+const LEASE_HOLD_MS = 15000;
+const LEASE_POLL_MS = 250;
+const DEFAULT_LEASE_WAIT_MS = 8000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const leaseKey = (room: string) => `lease:${room}`;
+
+function readLease(raw: string | null) {
+  const [token, expiresAt] = (raw ?? '').split(':');
+  return token && Number(expiresAt) > Date.now() ? token : null;
+}
+
+async function tryAcquire(kv: KeyValueNamespace, room: string, token: string) {
+  if (readLease(await kv.get(leaseKey(room)))) {
+    return false;
+  }
+  await kv.put(leaseKey(room), `${token}:${Date.now() + LEASE_HOLD_MS}`, {
+    expirationTtl: LEASE_KV_TTL_SECONDS,
+  });
+  // Whoever wrote last wins; reading back tells the loser to wait.
+  return readLease(await kv.get(leaseKey(room))) === token;
+}
+
+/**
+ * Runs `task` while holding the room's lease, waiting up to `waitMs` for another holder to finish.
+ * Returns null when the lease could not be taken in time. KV has no compare-and-set, so writers in
+ * different locations can both win within KV's propagation delay; callers must stay idempotent.
+ */
+export async function withRoomLease<T>(
+  kv: KeyValueNamespace,
+  room: string,
+  task: () => Promise<T>,
+  waitMs = DEFAULT_LEASE_WAIT_MS,
+): Promise<T | null> {
+  const token = crypto.randomUUID().replace(/-/g, '');
+  const deadline = Date.now() + waitMs;
+  while (!(await tryAcquire(kv, room, token))) {
+    if (Date.now() >= deadline) {
+      return null;
+    }
+    await sleep(LEASE_POLL_MS);
+  }
+
+  try {
+    return await task();
+  } finally {
+    if (readLease(await kv.get(leaseKey(room))) === token) {
+      await kv.delete(leaseKey(room));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { KeyValueNamespace } from './env';
+
+// Outlives every invite, and so every token refresh an invite allows.
+const REVOCATION_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+const revocationKey = (room: string, identity: string) => `revoked:${room}:${identity}`;
+const inviteRevocationKey = (inviteId: string) => `revoked-invite:${inviteId}`;
+const participantInviteKey = (room: string, identity: string) => `invite-of:${room}:${identity}`;
+
+/**
+ * Remembers which invite `identity` joined `room` with. Identities come from a device id the
+ * browser keeps, so a removed participant could come back under a new one; the invite cannot be
+ * regenerated, so removal revokes it too.
+ */
+export async function recordParticipantInvite(
+  kv: KeyValueNamespace,
+  room: string,
+  identity: string,
+  inviteId: string,
+) {
+  await kv.put(participantInviteKey(room, identity), inviteId, {
+    expirationTtl: REVOCATION_TTL_SECONDS,
+  });
+}
+
+/**
+ * Records that a host removed `identity` from `room`: its token can no longer be refreshed, and
+ * the invite it joined with no longer issues tokens, to anyone. Open rooms have no invite, so
+ * there only the identity is revoked.
+ */
+export async function revokeParticipant(kv: KeyValueNamespace, room: string, identity: string) {
+  const inviteId = await kv.get(participantInviteKey(room, identity));
+  await Promise.all([
+    kv.put(revocationKey(room, identity), String(Date.now()), {
+      expirationTtl: REVOCATION_TTL_SECONDS,
+    }),
+    inviteId
+      ? kv.put(inviteRevocationKey(inviteId), room, { expirationTtl: REVOCATION_TTL_SECONDS })
+      : null,
+  ]);
+}
+
+export async function isParticipantRevoked(kv: KeyValueNamespace, room: string, identity: string) {
+  return (await kv.get(revocationKey(room, identity))) !== null;
+}
+
+export async function isInviteRevoked(kv: KeyValueNamespace, inviteId: string) {
+  return (await kv.get(inviteRevocationKey(inviteId))) !== null;
+}
@@ -0,0 +1,113 @@
+import { readRoomAgentState, ROOM_AGENT_STATE_KEY } from '../../types/agent';
+import type { RoomAgentState } from '../../types/agent';
+import { buildDispatchContext, listRooms, updateRoomMetadata } from './dispatch';
+import type { KeyValueNamespace, LiveKitAgentEnv } from './env';
+
+// As long as an active room's participant snapshot, so both go stale together.
+const STORED_STATE_TTL_SECONDS = 60 * 60 * 24;
+
+const storedStateKey = (room: string) => `agent-state:${room}`;
+
+function parseRoomMetadata(raw?: string): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The state last published for the room, as kept in `ROOM_STATE` next to its snapshot. */
+export async function readStoredRoomAgentState(kv: KeyValueNamespace, room: string) {
+  return readRoomAgentState(await kv.get(storedStateKey(room)));
+}
+
+/**
+ * Writes the agent state into the room metadata, which LiveKit pushes to every participant, and
+ * keeps a copy in `ROOM_STATE` so status checks can read it without asking LiveKit. The rest of
+ * the metadata is kept; LiveKit has no conditional update, so a concurrent metadata write can be
+ * lost. Failures are logged only: the shared state must never fail the request itself.
+ */
+export async function publishRoomAgentState(
+  env: LiveKitAgentEnv,
+  room: string,
+  state: Omit<RoomAgentState, 'updatedAt'>,
+) {
+  try {
+    const context = await buildDispatchContext(env, room, { roomList: true });
+    const [info] = await listRooms(context, [room]);
+    if (!info) {
+      return;
+    }
+    const agentState: RoomAgentState = { ...state, updatedAt: Date.now() };
+    const metadata = {
+      ...parseRoomMetadata(info.metadata),
+      [ROOM_AGENT_STATE_KEY]: agentState,
+    };
+    await updateRoomMetadata(context, room, JSON.stringify(metadata));
+    if (env.ROOM_STATE) {
+      await env.ROOM_STATE.put(
+        storedStateKey(room),
+        JSON.stringify({ [ROOM_AGENT_STATE_KEY]: agentState }),
+        { expirationTtl: STORED_STATE_TTL_SECONDS },
+      );
+    }
+  } catch (error) {
+    console.warn('publishing room agent state failed', error);
+  }
+}
+
+/** What a status check or webhook saw of the agent itself. */
+export interface ObservedAgent {
+  agentPresent: boolean;
+  /** Code of a failed agent job; see `extractDispatchError`. */
+  errorCode: string | null;
+}
+
+// `requesting` lasts until the agent is really in the room; a failed job ends it as `error`.
+function nextRoomAgentState(
+  shared: RoomAgentState | null,
+  observed: ObservedAgent,
+): Omit<RoomAgentState, 'updatedAt'> | null {
+  if (!shared) {
+    return null;
+  }
+  const { changedBy } = shared;
+  if (observed.agentPresent) {
+    return shared.state === 'requesting' ? { state: 'active', errorCode: null, changedBy } : null;
+  }
+  if (observed.errorCode && (shared.state === 'requesting' || shared.state === 'active')) {
+    return { state: 'error', errorCode: observed.errorCode, changedBy };
+  }
+  return null;
+}
+
+/**
+ * Moves the shared state along with what the server saw of the agent. `shared` is the state from
+ * the room metadata when the caller already has it, as webhooks do; otherwise it is read from
+ * LiveKit. Like publishing, failures are only logged.
+ */
+export async function syncRoomAgentState(
+  env: LiveKitAgentEnv,
+  room: string,
+  observed: ObservedAgent,
+  shared?: RoomAgentState | null,
+) {
+  try {
+    let current = shared;
+    if (current === undefined) {
+      const context = await buildDispatchContext(env, room, { roomList: true });
+      const [info] = await listRooms(context, [room]);
+      current = readRoomAgentState(info?.metadata);
+    }
+    const next = nextRoomAgentState(current, observed);
+    if (next) {
+      await publishRoomAgentState(env, room, next);
+    }
+  } catch (error) {
+    console.warn('syncing room agent state failed', error);
+  }
+}
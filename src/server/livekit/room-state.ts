@@ -0,0 +1,121 @@
+import type { KeyValueNamespace } from './env';
+import type { WebhookEvent, WebhookParticipant } from './webhook';
+
+export interface RoomStateParticipant {
+  identity: string;
+  name?: string;
+  kind?: string | number;
+  attributes?: Record<string, string>;
+  /** For agents, the dispatched agent the participant is, when the webhook could tell. */
+  agentName?: string;
+  joinedAt: number;
+}
+
+export interface RoomStateSnapshot {
+  room: string;
+  active: boolean;
+  participants: RoomStateParticipant[];
+  startedAt?: number;
+  finishedAt?: number;
+  updatedAt: number;
+}
+
+const ACTIVE_TTL_SECONDS = 60 * 60 * 24;
+const FINISHED_TTL_SECONDS = 60 * 60;
+
+const roomKey = (room: string) => `room:${room}`;
+
+export async function readRoomState(kv: KeyValueNamespace, room: string): Promise<RoomStateSnapshot | null> {
+  const raw = await kv.get(roomKey(room));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as RoomStateSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+function toParticipant(
+  participant: WebhookParticipant,
+  joinedAt: number,
+  agentName?: string | null,
+): RoomStateParticipant | null {
+  const identity = participant.identity?.trim();
+  if (!identity) {
+    return null;
+  }
+  return {
+    identity,
+    name: participant.name,
+    kind: participant.kind,
+    attributes: participant.attributes,
+    ...(agentName ? { agentName } : {}),
+    joinedAt,
+  };
+}
+
+/**
+ * Folds a webhook event into the stored snapshot for its room. `agentName` names the dispatched
+ * agent a joining agent participant is. KV offers no transactions, so two events landing at the
+ * same moment can overwrite each other; the next event corrects the list.
+ */
+export async function applyWebhookEvent(
+  kv: KeyValueNamespace,
+  event: WebhookEvent,
+  agentName?: string | null,
+) {
+  const room = event.room?.name?.trim();
+  if (!room) {
+    return null;
+  }
+
+  const now = Date.now();
+  const current = (await readRoomState(kv, room)) ?? {
+    room,
+    active: true,
+    participants: [],
+    updatedAt: now,
+  };
+  let next: RoomStateSnapshot = { ...current, updatedAt: now };
+
+  switch (event.event) {
+    case 'room_started':
+      next = { room, active: true, participants: [], startedAt: now, updatedAt: now };
+      break;
+    case 'room_finished':
+      next = { ...next, active: false, participants: [], finishedAt: now };
+      break;
+    case 'participant_joined': {
+      const participant = event.participant
+        ? toParticipant(event.participant, now, agentName)
+        : null;
+      if (participant) {
+        next = {
+          ...next,
+          active: true,
+          participants: [
+            ...current.participants.filter((item) => item.identity !== participant.identity),
+            participant,
+          ],
+        };
+      }
+      break;
+    }
+    case 'participant_left': {
+      const identity = event.participant?.identity?.trim();
+      if (identity) {
+        next = { ...next, participants: current.participants.filter((item) => item.identity !== identity) };
+      }
+      break;
+    }
+    default:
+      return current;
+  }
+
+  await kv.put(roomKey(room), JSON.stringify(next), {
+    expirationTtl: next.active ? ACTIVE_TTL_SECONDS : FINISHED_TTL_SECONDS,
+  });
+  return next;
+}
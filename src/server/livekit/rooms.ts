@@ -0,0 +1,95 @@
+import { isLlmProvider } from '../../types/llm';
+import type { LlmCredentials, LlmProvider } from '../../types/llm';
+import type { LiveKitAgentEnv } from './env';
+
+export function normalizeRoom(room?: string | null): string {
+  return room?.trim() ?? '';
+}
+
+/** The demo room when neither `VITE_DEMO_ROOM` nor `VOICE_AGENT_DEMO_ROOM` names one. */
+export const DEFAULT_DEMO_ROOM = 'demo-room';
+
+/** The effective open rooms; `/api/config` reports the same values to the browser. */
+export function getTokenlessRooms(env: LiveKitAgentEnv) {
+  const defaultRoom = normalizeRoom(env.VITE_DEFAULT_ROOM ?? env.VOICE_AGENT_DEFAULT_ROOM ?? null);
+  const demoRoom =
+    normalizeRoom(env.VITE_DEMO_ROOM ?? env.VOICE_AGENT_DEMO_ROOM ?? null) || DEFAULT_DEMO_ROOM;
+  return { defaultRoom, demoRoom };
+}
+
+/** The public demo room, whose agent sessions are time-limited; see `demo-quota.ts`. */
+export function isDemoRoom(env: LiveKitAgentEnv, room?: string | null) {
+  const normalizedRoom = normalizeRoom(room);
+  if (!normalizedRoom) {
+    return false;
+  }
+  return normalizedRoom === getTokenlessRooms(env).demoRoom;
+}
+
+export function isTokenOptionalRoom(env: LiveKitAgentEnv, room?: string | null) {
+  const normalizedRoom = normalizeRoom(room);
+  if (!normalizedRoom) {
+    return false;
+  }
+
+  const { defaultRoom } = getTokenlessRooms(env);
+
+  if (defaultRoom && normalizedRoom === defaultRoom) {
+    return true;
+  }
+  return isDemoRoom(env, normalizedRoom);
+}
+
+function readDefaultLlmToken(env: LiveKitAgentEnv) {
+  return (env.LLM_DEFAULT_TOKEN ?? env.VITE_DEFAULT_LLM_TOKEN ?? '').trim();
+}
+
+/**
+ * Providers a token-optional room needs no caller key for: `LLM_DEFAULT_KEY_PROVIDERS`, or just
+ * `gemini`, plus `gemini` whenever the server has `LLM_DEFAULT_TOKEN`.
+ */
+export function getDefaultKeyProviders(env: LiveKitAgentEnv): LlmProvider[] {
+  const configured = (env.LLM_DEFAULT_KEY_PROVIDERS ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(isLlmProvider);
+  const providers: LlmProvider[] = configured.length > 0 ? configured : ['gemini'];
+  return readDefaultLlmToken(env) && !providers.includes('gemini')
+    ? [...providers, 'gemini']
+    : providers;
+}
+
+/** The server's own key for a token-optional room whose agent uses Gemini or needs no key. */
+export function getDefaultLlmCredentials(
+  env: LiveKitAgentEnv,
+  room: string,
+  provider: LlmProvider | null,
+): LlmCredentials | null {
+  const key = readDefaultLlmToken(env);
+  if (!key || !isTokenOptionalRoom(env, room) || (provider && provider !== 'gemini')) {
+    return null;
+  }
+  return { provider: 'gemini', key };
+}
+
+/**
+ * Token-optional rooms only waive the caller's key for providers the agent has a key for itself.
+ * `provider` null means the agent needs no key at all.
+ */
+export function isKeyOptional(env: LiveKitAgentEnv, room: string, provider: LlmProvider | null) {
+  if (!provider) {
+    return true;
+  }
+  return isTokenOptionalRoom(env, room) && getDefaultKeyProviders(env).includes(provider);
+}
+
+function randomSuffix(length = 6) {
+  const alphabet = '23456789abcdefghjkmnpqrstuvwxyz';
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (value) => alphabet[value % alphabet.length]).join('');
+}
+
+export function generateRoomName() {
+  return `room-${randomSuffix(10)}`;
+}
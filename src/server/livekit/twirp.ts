@@ -0,0 +1,209 @@
+import type { AgentDispatch, DispatchContext, LiveKitRoomInfo, RoomParticipant } from './dispatch';
+import type { ParticipantAccess } from './jwt';
+
+export type TwirpErrorCode =
+  | 'canceled'
+  | 'unknown'
+  | 'invalid_argument'
+  | 'malformed'
+  | 'deadline_exceeded'
+  | 'not_found'
+  | 'bad_route'
+  | 'already_exists'
+  | 'permission_denied'
+  | 'unauthenticated'
+  | 'resource_exhausted'
+  | 'failed_precondition'
+  | 'aborted'
+  | 'out_of_range'
+  | 'unimplemented'
+  | 'internal'
+  | 'unavailable'
+  | 'dataloss';
+
+const RETRYABLE_CODES = new Set<TwirpErrorCode>(['unavailable', 'deadline_exceeded', 'resource_exhausted']);
+
+// Twirp's code -> HTTP status table, used when the body is not a Twirp error.
+const CODE_BY_STATUS: Record<number, TwirpErrorCode> = {
+  400: 'invalid_argument',
+  401: 'unauthenticated',
+  403: 'permission_denied',
+  404: 'not_found',
+  408: 'deadline_exceeded',
+  409: 'already_exists',
+  412: 'failed_precondition',
+  429: 'resource_exhausted',
+  501: 'unimplemented',
+  503: 'unavailable',
+};
+
+export class TwirpError extends Error {
+  readonly code: TwirpErrorCode;
+  readonly msg: string;
+  readonly status: number;
+  readonly method: string;
+  readonly meta?: Record<string, string>;
+
+  constructor(method: string, status: number, code: TwirpErrorCode, msg: string, meta?: Record<string, string>) {
+    super(`${method} failed: ${code}${msg ? ` (${msg})` : ''}`);
+    this.name = 'TwirpError';
+    this.method = method;
+    this.status = status;
+    this.code = code;
+    this.msg = msg;
+    this.meta = meta;
+  }
+
+  get retryable() {
+    return RETRYABLE_CODES.has(this.code);
+  }
+}
+
+export interface TwirpMethods {
+  'livekit.AgentDispatchService': {
+    ListDispatch: { request: { room: string; dispatchId?: string }; response: { agentDispatches?: AgentDispatch[] } };
+    CreateDispatch: { request: { room: string; agentName: string; metadata?: string }; response: AgentDispatch };
+    DeleteDispatch: { request: { room: string; dispatchId: string }; response: AgentDispatch };
+  };
+  'livekit.RoomService': {
+    CreateRoom: {
+      request: { name: string; emptyTimeout?: number; maxParticipants?: number; metadata?: string };
+      response: LiveKitRoomInfo;
+    };
+    ListRooms: { request: { names?: string[] }; response: { rooms?: LiveKitRoomInfo[] } };
+    UpdateRoomMetadata: { request: { room: string; metadata: string }; response: LiveKitRoomInfo };
+    ListParticipants: { request: { room: string }; response: { participants?: RoomParticipant[] } };
+    GetParticipant: { request: { room: string; identity: string }; response: RoomParticipant };
+    RemoveParticipant: { request: { room: string; identity: string }; response: Record<string, never> };
+    MutePublishedTrack: {
+      request: { room: string; identity: string; trackSid: string; muted: boolean };
+      response: Record<string, unknown>;
+    };
+    UpdateParticipant: {
+      request: { room: string; identity: string; permission?: ParticipantAccess; metadata?: string };
+      response: RoomParticipant;
+    };
+  };
+}
+
+export type TwirpService = keyof TwirpMethods;
+
+export interface TwirpCallOptions {
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Extra attempts after a retryable failure; only honoured for idempotent calls. */
+  retries?: number;
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 200;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function toTwirpError(method: string, res: Response): Promise<TwirpError> {
+  const text = await res.text();
+  try {
+    const parsed = JSON.parse(text) as { code?: string; msg?: string; meta?: Record<string, string> };
+    if (parsed && typeof parsed.code === 'string') {
+      return new TwirpError(method, res.status, parsed.code as TwirpErrorCode, parsed.msg ?? '', parsed.meta);
+    }
+  } catch {
+    // not a Twirp error body
+  }
+  const code = CODE_BY_STATUS[res.status] ?? (res.status >= 500 ? 'internal' : 'unknown');
+  return new TwirpError(method, res.status, code, text.trim());
+}
+
+async function attempt<T>(context: DispatchContext, path: string, method: string, body: string, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(`${context.baseUrl}${path}`, {
+      method: 'POST',
+      headers: context.headers,
+      body,
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      throw await toTwirpError(method, res);
+    }
+    const text = await res.text();
+    if (!text.trim()) {
+      return {} as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new TwirpError(method, res.status, 'malformed', `Unexpected response: ${text}`);
+    }
+  } catch (error) {
+    if (error instanceof TwirpError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new TwirpError(method, 504, 'deadline_exceeded', `No response within ${timeoutMs} ms`);
+    }
+    throw new TwirpError(method, 503, 'unavailable', error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Calls a LiveKit Twirp method with a timeout, retrying idempotent calls on transient failures. */
+export async function callTwirp<S extends TwirpService, M extends keyof TwirpMethods[S] & string>(
+  context: DispatchContext,
+  service: S,
+  method: M,
+  request: TwirpMethods[S][M] extends { request: infer Req } ? Req : never,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, idempotent = false }: TwirpCallOptions = {},
+): Promise<TwirpMethods[S][M] extends { response: infer Res } ? Res : never> {
+  const path = `/twirp/${service}/${method}`;
+  const body = JSON.stringify(request);
+  const maxAttempts = idempotent ? retries + 1 : 1;
+
+  for (let attemptIndex = 1; ; attemptIndex += 1) {
+    try {
+      return await attempt(context, path, method, body, timeoutMs);
+    } catch (error) {
+      const retryable = error instanceof TwirpError && error.retryable;
+      if (!retryable || attemptIndex >= maxAttempts) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attemptIndex - 1));
+    }
+  }
+}
+
+export function isTwirpNotFound(error: unknown) {
+  return error instanceof TwirpError && error.code === 'not_found';
+}
+
+/** Maps a LiveKit failure onto the status our own endpoints should answer with. */
+export function twirpErrorToHttpStatus(error: unknown): number {
+  if (!(error instanceof TwirpError)) {
+    return 502;
+  }
+  switch (error.code) {
+    case 'invalid_argument':
+    case 'malformed':
+    case 'out_of_range':
+      return 400;
+    case 'not_found':
+      return 404;
+    case 'already_exists':
+    case 'aborted':
+    case 'failed_precondition':
+      return 409;
+    case 'resource_exhausted':
+      return 429;
+    case 'unavailable':
+      return 503;
+    case 'deadline_exceeded':
+      return 504;
+    default:
+      // Auth failures here concern our server credentials, not the caller.
+      return 502;
+  }
+}
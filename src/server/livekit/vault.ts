@@ -0,0 +1,148 @@
+import { normalizeLlmCredentials } from '../../types/llm';
+import type { LlmCredentials } from '../../types/llm';
+import type { KeyValueNamespace, LiveKitAgentEnv } from './env';
+import { base64url, decodeBase64url } from './jwt';
+
+export const DEFAULT_VAULT_TTL_SECONDS = 60 * 60 * 24 * 7;
+/** The agent redeems its reference when the job starts, so it only needs to outlive dispatch. */
+export const SECRET_REFERENCE_TTL_SECONDS = 60 * 10;
+
+const encoder = new TextEncoder();
+
+interface StoredSecret {
+  iv: string;
+  data: string;
+}
+
+export interface SecretReference {
+  room: string;
+  handle: string;
+}
+
+export interface SecretVault {
+  kv: KeyValueNamespace;
+  secret: string;
+  ttlSeconds: number;
+}
+
+/** Returns the vault when both the KV binding and the encryption secret are configured. */
+export function getSecretVault(env: LiveKitAgentEnv): SecretVault | null {
+  const secret = env.SECRET_VAULT_KEY?.trim();
+  if (!env.SECRET_VAULT || !secret) {
+    return null;
+  }
+  const configured = Number(env.SECRET_VAULT_TTL_SECONDS);
+  const valid = Number.isFinite(configured) && configured >= 60;
+  const ttlSeconds = valid ? Math.floor(configured) : DEFAULT_VAULT_TTL_SECONDS;
+  return { kv: env.SECRET_VAULT, secret, ttlSeconds };
+}
+
+const secretKey = (room: string, handle: string) => `secret:${room}:${handle}`;
+const referenceKey = (reference: string) => `secret-ref:${reference}`;
+
+function randomToken(bytes: number) {
+  return base64url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+async function importVaultKey(secret: string) {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`meet-vault.${secret}`));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypts `value` with AES-GCM and stores it under a fresh handle. The room name is bound in as
+ * additional data, so a handle only decrypts for the room it was created in.
+ */
+export async function storeSecret(vault: SecretVault, room: string, value: string) {
+  const handle = `vh_${randomToken(18)}`;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await importVaultKey(vault.secret);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(room) },
+    key,
+    encoder.encode(value),
+  );
+  const stored: StoredSecret = { iv: base64url(iv), data: base64url(data) };
+  await vault.kv.put(secretKey(room, handle), JSON.stringify(stored), {
+    expirationTtl: vault.ttlSeconds,
+  });
+  return handle;
+}
+
+export async function readSecret(vault: SecretVault, room: string, handle: string) {
+  const raw = await vault.kv.get(secretKey(room, handle));
+  if (!raw) {
+    return null;
+  }
+  try {
+    const stored = JSON.parse(raw) as StoredSecret;
+    const key = await importVaultKey(vault.secret);
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBase64url(stored.iv), additionalData: encoder.encode(room) },
+      key,
+      decodeBase64url(stored.data),
+    );
+    return new TextDecoder().decode(plain);
+  } catch (error) {
+    console.warn('Failed to decrypt vault secret', error);
+    return null;
+  }
+}
+
+export function storeCredentials(vault: SecretVault, room: string, credentials: LlmCredentials) {
+  return storeSecret(vault, room, JSON.stringify(credentials));
+}
+
+/** Decodes a secret from {@link storeCredentials}; older bare-string entries are Gemini keys. */
+export function parseStoredCredentials(secret: string | null): LlmCredentials | null {
+  if (secret === null) {
+    return null;
+  }
+  try {
+    return normalizeLlmCredentials(JSON.parse(secret));
+  } catch {
+    return normalizeLlmCredentials(secret);
+  }
+}
+
+/** Creates an opaque reference to a stored secret that can be redeemed once. */
+export async function issueSecretReference(vault: SecretVault, room: string, handle: string) {
+  const reference = `vr_${randomToken(18)}`;
+  const value: SecretReference = { room, handle };
+  await vault.kv.put(referenceKey(reference), JSON.stringify(value), {
+    expirationTtl: SECRET_REFERENCE_TTL_SECONDS,
+  });
+  return reference;
+}
+
+export async function lookupSecretReference(
+  vault: SecretVault,
+  reference: string,
+): Promise<SecretReference | null> {
+  const raw = await vault.kv.get(referenceKey(reference));
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<SecretReference>;
+    return typeof parsed.room === 'string' && typeof parsed.handle === 'string'
+      ? { room: parsed.room, handle: parsed.handle }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Deletes a reference found by {@link lookupSecretReference} and returns the decrypted secret. KV
+ * has no compare-and-delete, so two redemptions racing within KV's propagation delay could both
+ * succeed; the short reference TTL bounds that window.
+ */
+export async function redeemSecretReference(
+  vault: SecretVault,
+  reference: string,
+  target: SecretReference,
+) {
+  await vault.kv.delete(referenceKey(reference));
+  return readSecret(vault, target.room, target.handle);
+}
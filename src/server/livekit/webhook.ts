@@ -0,0 +1,71 @@
+import type { LiveKitEnv } from './env';
+import { base64url, timingSafeEqual, verifyJwt } from './jwt';
+
+export type WebhookEventName =
+  | 'room_started'
+  | 'room_finished'
+  | 'participant_joined'
+  | 'participant_left'
+  | (string & {});
+
+export interface WebhookParticipant {
+  sid?: string;
+  identity?: string;
+  name?: string;
+  kind?: string | number;
+  metadata?: string;
+  attributes?: Record<string, string>;
+}
+
+export interface WebhookEvent {
+  id?: string;
+  event: WebhookEventName;
+  createdAt?: string | number;
+  room?: { sid?: string; name?: string; metadata?: string };
+  participant?: WebhookParticipant;
+}
+
+interface WebhookClaims {
+  iss?: string;
+  exp?: number;
+  nbf?: number;
+  sha256?: string;
+}
+
+// LiveKit sends the digest as standard base64; compare in the base64url alphabet.
+const toBase64url = (value: string) => value.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Verifies a LiveKit webhook: the `Authorization` header carries a JWT signed with the API
+ * secret whose `sha256` claim must match the raw request body. Returns the parsed event, or null.
+ */
+export async function verifyWebhook(
+  env: LiveKitEnv,
+  authorization: string | null,
+  body: string,
+): Promise<WebhookEvent | null> {
+  const token = (authorization ?? '').replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    return null;
+  }
+
+  const claims = await verifyJwt<WebhookClaims>(token, env.LIVEKIT_API_SECRET, {
+    issuer: env.LIVEKIT_API_KEY,
+    leewaySeconds: 60,
+  });
+  if (!claims || typeof claims.sha256 !== 'string') {
+    return null;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  if (!timingSafeEqual(base64url(digest), toBase64url(claims.sha256))) {
+    return null;
+  }
+
+  try {
+    const event = JSON.parse(body) as WebhookEvent;
+    return event && typeof event.event === 'string' ? event : null;
+  } catch {
+    return null;
+  }
+}
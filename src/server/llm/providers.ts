@@ -0,0 +1,117 @@
+import type { LlmKeyValidity } from '../../types/api';
+import type { LlmCredentials, LlmProvider } from '../../types/llm';
+
+export interface LlmKeyCheck {
+  result: LlmKeyValidity;
+  /** Provider's own explanation, for logs. */
+  detail: string | null;
+}
+
+export type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface LlmProviderAdapter {
+  id: LlmProvider;
+  /** Makes the cheapest authenticated request the provider offers, e.g. listing one model. */
+  check(credentials: LlmCredentials, fetcher: Fetcher, signal: AbortSignal): Promise<LlmKeyCheck>;
+}
+
+async function readProviderError(response: Response): Promise<string | null> {
+  try {
+    const body = (await response.json()) as { error?: { message?: string } | string };
+    return typeof body.error === 'string' ? body.error : body.error?.message ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Shared by all adapters: the model-list endpoints fail the same way across providers.
+async function classifyResponse(response: Response): Promise<LlmKeyCheck> {
+  if (response.ok || response.status === 429) {
+    // A rate-limited key is still a working key.
+    return { result: 'valid', detail: null };
+  }
+  const detail = await readProviderError(response);
+  if (response.status === 400 || response.status === 401) {
+    return { result: 'invalid', detail };
+  }
+  if (response.status === 403) {
+    return { result: 'no_permission', detail };
+  }
+  return { result: 'unknown', detail: detail ?? `HTTP ${response.status}` };
+}
+
+const gemini: LlmProviderAdapter = {
+  id: 'gemini',
+  async check({ key }, fetcher, signal) {
+    const url = new URL('https://generativelanguage.googleapis.com/v1beta/models');
+    url.searchParams.set('pageSize', '1');
+    const response = await fetcher(url.toString(), { headers: { 'x-goog-api-key': key }, signal });
+    return classifyResponse(response);
+  },
+};
+
+const openai: LlmProviderAdapter = {
+  id: 'openai',
+  async check({ key }, fetcher, signal) {
+    const response = await fetcher('https://api.openai.com/v1/models', {
+      headers: { Authorization: `Bearer ${key}` },
+      signal,
+    });
+    return classifyResponse(response);
+  },
+};
+
+const anthropic: LlmProviderAdapter = {
+  id: 'anthropic',
+  async check({ key }, fetcher, signal) {
+    const response = await fetcher('https://api.anthropic.com/v1/models?limit=1', {
+      headers: { 'x-api-key': key, 'anthropic-version': '2023-06-01' },
+      signal,
+    });
+    return classifyResponse(response);
+  },
+};
+
+// The base URL comes from the caller, and fetching it would let anyone aim this function at
+// private hosts. Only the format check in `checkLlmCredentials` applies.
+const selfHosted: LlmProviderAdapter = {
+  id: 'self-hosted',
+  async check() {
+    return { result: 'unknown', detail: 'self-hosted endpoints are not contacted' };
+  },
+};
+
+export const LLM_PROVIDER_ADAPTERS: Record<LlmProvider, LlmProviderAdapter> = {
+  gemini,
+  openai,
+  anthropic,
+  'self-hosted': selfHosted,
+};
+
+export interface ValidateLlmKeyOptions {
+  fetcher?: Fetcher;
+  timeoutMs?: number;
+}
+
+/**
+ * Asks the provider whether the credentials work. Network failures and timeouts come back as
+ * `unknown` rather than `invalid`, so a flaky provider never blocks a good key.
+ */
+export async function validateLlmKey(
+  credentials: LlmCredentials,
+  { fetcher = (input, init) => fetch(input, init), timeoutMs = 5000 }: ValidateLlmKeyOptions = {},
+): Promise<LlmKeyCheck> {
+  const adapter = LLM_PROVIDER_ADAPTERS[credentials.provider];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await adapter.check(credentials, fetcher, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { result: 'unknown', detail: 'timeout' };
+    }
+    return { result: 'unknown', detail: error instanceof Error ? error.message : null };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -1,4 +1,4 @@
-export type AgentControlState = 'invite' | 'requesting' | 'pause' | 'resume' | 'error';
+export type AgentControlState = 'invite' | 'requesting' | 'pause' | 'resume' | 'stop' | 'error';
 
 export interface AgentControlConfig {
   label: string;
@@ -10,3 +10,84 @@ export interface AgentControlConfig {
 }
 
 export type AgentStatus = 'idle' | 'requesting' | 'active' | 'paused' | 'error' | 'disconnecting';
+
+/** Agent lifecycle as the whole room sees it; `/api/dispatch` keeps it in the room metadata. */
+export type RoomAgentPhase = 'idle' | 'requesting' | 'active' | 'paused' | 'error';
+
+export interface RoomAgentState {
+  state: RoomAgentPhase;
+  /** An `ApiErrorCode` when `state` is `error`. */
+  errorCode: string | null;
+  /** Whoever made the change; null for server-side changes such as the cleanup worker. */
+  changedBy: { identity: string; name: string | null } | null;
+  updatedAt: number;
+}
+
+/** Key of {@link RoomAgentState} within the room metadata JSON. */
+export const ROOM_AGENT_STATE_KEY = 'agent';
+
+const ROOM_AGENT_PHASES: RoomAgentPhase[] = ['idle', 'requesting', 'active', 'paused', 'error'];
+
+export function readRoomAgentState(metadata?: string | null): RoomAgentState | null {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    const raw = (JSON.parse(metadata) as Record<string, unknown> | null)?.[ROOM_AGENT_STATE_KEY];
+    if (!raw || typeof raw !== 'object') {
+      return null;
+    }
+    const { state, errorCode, changedBy, updatedAt } = raw as Record<string, unknown>;
+    if (!ROOM_AGENT_PHASES.includes(state as RoomAgentPhase) || typeof updatedAt !== 'number') {
+      return null;
+    }
+    const author = changedBy as { identity?: unknown; name?: unknown } | null;
+    return {
+      state: state as RoomAgentPhase,
+      errorCode: typeof errorCode === 'string' ? errorCode : null,
+      changedBy:
+        author && typeof author.identity === 'string'
+          ? { identity: author.identity, name: typeof author.name === 'string' ? author.name : null }
+          : null,
+      updatedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Key of the creator's "invite the assistant on join" choice within the room metadata JSON. */
+export const ROOM_AUTO_AGENT_KEY = 'autoAgent';
+
+export function readRoomAutoAgent(metadata?: string | null): boolean {
+  if (!metadata) {
+    return false;
+  }
+  try {
+    return (JSON.parse(metadata) as Record<string, unknown> | null)?.[ROOM_AUTO_AGENT_KEY] === true;
+  } catch {
+    return false;
+  }
+}
+
+/** Text keyed by locale, e.g. `{ uk: '…', en: '…' }`. */
+export type LocalizedText = Record<string, string>;
+
+import type { LlmProvider } from './llm';
+
+export interface AgentCatalogEntry {
+  /** LiveKit agent name used for dispatch. */
+  name: string;
+  label: LocalizedText;
+  description: LocalizedText;
+  /** Provider whose API key the caller must supply; null when the agent uses the server's key. */
+  requiredProvider: LlmProvider | null;
+  /** Locales the agent can speak; empty means any. */
+  languages: string[];
+}
+
+export interface AgentCatalogResponse {
+  status: 'ok';
+  agents: AgentCatalogEntry[];
+  defaultAgent: string | null;
+}
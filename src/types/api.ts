@@ -0,0 +1,93 @@
+import type { LlmProvider } from './llm';
+
+/** Machine-readable error codes shared by the Pages functions and the client. */
+export type ApiErrorCode =
+  | 'method_not_allowed'
+  | 'not_configured'
+  | 'bad_request'
+  | 'room_required'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invite_invalid'
+  | 'invite_required'
+  | 'token_invalid'
+  | 'llm_token_required'
+  | 'agent_unknown'
+  | 'llm_key_expired'
+  | 'llm_key_invalid'
+  | 'audio_host_not_allowed'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'demo_quota_exceeded'
+  | 'upstream_unavailable'
+  | 'upstream_timeout'
+  | 'upstream_error'
+  | 'internal';
+
+export const API_ERROR_CODES: ApiErrorCode[] = [
+  'method_not_allowed',
+  'not_configured',
+  'bad_request',
+  'room_required',
+  'unauthorized',
+  'forbidden',
+  'invite_invalid',
+  'invite_required',
+  'token_invalid',
+  'llm_token_required',
+  'agent_unknown',
+  'llm_key_expired',
+  'llm_key_invalid',
+  'audio_host_not_allowed',
+  'not_found',
+  'conflict',
+  'rate_limited',
+  'demo_quota_exceeded',
+  'upstream_unavailable',
+  'upstream_timeout',
+  'upstream_error',
+  'internal',
+];
+
+/**
+ * Body of every non-2xx response from `/api/*`. `message` is English and meant for logs; the client
+ * shows its own translation of `code`.
+ */
+export interface ApiErrorBody {
+  status: 'error';
+  code: ApiErrorCode;
+  message: string;
+  detail: string | null;
+  retryable: boolean;
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && (API_ERROR_CODES as string[]).includes(value);
+}
+
+/**
+ * Body of `GET /api/config`: the public runtime settings the client used to get from `VITE_*`
+ * build variables. Secrets such as the default LLM token are never part of it.
+ */
+export interface RuntimeConfigResponse {
+  status: 'ok';
+  /** Rooms anyone may join without an invite. */
+  defaultRoom: string | null;
+  demoRoom: string | null;
+  /** Identity of the agent participant, for agents LiveKit does not mark as such. */
+  agentIdentity: string | null;
+  /** Providers the agent or the server holds a key for; token-optional rooms need none for them. */
+  defaultKeyProviders: LlmProvider[];
+  agentJoinTimeoutSeconds: number | null;
+  agentInviteAttempts: number | null;
+}
+
+export type LlmKeyValidity = 'valid' | 'invalid' | 'no_permission' | 'unknown';
+
+/** Body of a successful `POST /api/llm-key/validate`. */
+export interface LlmKeyValidateResponse {
+  status: 'ok';
+  provider: string;
+  result: LlmKeyValidity;
+}
@@ -0,0 +1,63 @@
+export type LlmProvider = 'gemini' | 'openai' | 'anthropic' | 'self-hosted';
+
+export const LLM_PROVIDER_IDS: LlmProvider[] = ['gemini', 'openai', 'anthropic', 'self-hosted'];
+
+export interface LlmCredentials {
+  provider: LlmProvider;
+  /** May be empty for self-hosted servers that do not check keys. */
+  key: string;
+  /** Base URL of an OpenAI-compatible server; self-hosted only. */
+  baseUrl?: string;
+}
+
+export type LlmCredentialsProblem = 'key_missing' | 'key_format' | 'base_url';
+
+// Loose shape checks that catch truncated pastes and keys meant for another provider.
+const KEY_PATTERNS: Record<Exclude<LlmProvider, 'self-hosted'>, RegExp> = {
+  gemini: /^AIza[0-9A-Za-z_-]{35}$/,
+  openai: /^sk-(?!ant-)[A-Za-z0-9_-]{20,}$/,
+  anthropic: /^sk-ant-[A-Za-z0-9_-]{20,}$/,
+};
+
+export function isLlmProvider(value: unknown): value is LlmProvider {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as string[]).includes(value);
+}
+
+/** Reads credentials from untrusted input; legacy bare strings are Gemini keys. */
+export function normalizeLlmCredentials(value: unknown): LlmCredentials | null {
+  if (typeof value === 'string') {
+    return value.trim() ? { provider: 'gemini', key: value.trim() } : null;
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  if (!isLlmProvider(raw.provider)) {
+    return null;
+  }
+  const key = typeof raw.key === 'string' ? raw.key.trim() : '';
+  const baseUrl = typeof raw.baseUrl === 'string' ? raw.baseUrl.trim() : '';
+  if (raw.provider === 'self-hosted') {
+    return baseUrl || key ? { provider: raw.provider, key, baseUrl } : null;
+  }
+  return key ? { provider: raw.provider, key } : null;
+}
+
+export function checkLlmCredentials({
+  provider,
+  key,
+  baseUrl,
+}: LlmCredentials): LlmCredentialsProblem | null {
+  if (provider === 'self-hosted') {
+    try {
+      const url = new URL(baseUrl ?? '');
+      return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'base_url';
+    } catch {
+      return 'base_url';
+    }
+  }
+  if (!key) {
+    return 'key_missing';
+  }
+  return KEY_PATTERNS[provider].test(key) ? null : 'key_format';
+}
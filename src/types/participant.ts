@@ -0,0 +1,52 @@
+/**
+ * The fields agent detection needs. livekit-client participants, Twirp `ParticipantInfo` and
+ * webhook payloads all have this shape.
+ */
+export interface ParticipantLike {
+  identity?: string | null;
+  /** `ParticipantInfo.Kind`: a number in livekit-client, the enum name in server JSON. */
+  kind?: string | number | null;
+  attributes?: Readonly<Record<string, string>> | null;
+}
+
+// ParticipantInfo.Kind.AGENT; spelled out so server code does not pull in livekit-client.
+const AGENT_KIND = 4;
+// Set by the LiveKit Agents framework, e.g. `lk.agent.state`.
+const AGENT_ATTRIBUTE_PREFIX = 'lk.agent.';
+
+export function isAgentKind(kind: ParticipantLike['kind']) {
+  return kind === AGENT_KIND || (typeof kind === 'string' && kind.toUpperCase() === 'AGENT');
+}
+
+/**
+ * True for participants LiveKit reports as agents or that carry agent attributes. The configured
+ * `fallbackIdentity` covers servers too old to report `kind`. Names and metadata are never
+ * consulted, so a person called "Agent Smith" stays a person.
+ */
+export function isAgentParticipant(
+  participant: ParticipantLike,
+  fallbackIdentity?: string | null,
+): boolean {
+  if (isAgentKind(participant.kind)) {
+    return true;
+  }
+  const attributes = participant.attributes ?? {};
+  if (Object.keys(attributes).some((key) => key.startsWith(AGENT_ATTRIBUTE_PREFIX))) {
+    return true;
+  }
+  const fallback = fallbackIdentity?.trim();
+  return Boolean(fallback) && participant.identity?.trim() === fallback;
+}
+
+/** What a LiveKit agent reports it is doing through the `lk.agent.state` attribute. */
+export type AgentActivity = 'initializing' | 'listening' | 'thinking' | 'speaking';
+
+export const AGENT_STATE_ATTRIBUTE = 'lk.agent.state';
+
+const AGENT_ACTIVITIES: AgentActivity[] = ['initializing', 'listening', 'thinking', 'speaking'];
+
+/** Null when the agent does not publish the attribute or reports a state we do not show. */
+export function readAgentActivity(participant: ParticipantLike | null): AgentActivity | null {
+  const value = participant?.attributes?.[AGENT_STATE_ATTRIBUTE];
+  return AGENT_ACTIVITIES.includes(value as AgentActivity) ? (value as AgentActivity) : null;
+}
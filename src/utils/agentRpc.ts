@@ -0,0 +1,45 @@
+import type { Room } from 'livekit-client';
+import { isAgentParticipant } from '../types/participant';
+
+/**
+ * RPC the agent registers to stop (`{"paused":true}`) or resume (`{"paused":false}`) listening
+ * and speaking while staying in the room with its conversation intact.
+ */
+export const AGENT_PAUSE_RPC_METHOD = 'agent.set_paused';
+
+const AGENT_RPC_TIMEOUT_MS = 5000;
+
+export function findAgentParticipant(room: Room, fallbackIdentity?: string | null) {
+  return (
+    Array.from(room.remoteParticipants.values()).find((participant) =>
+      isAgentParticipant(participant, fallbackIdentity),
+    ) ?? null
+  );
+}
+
+/**
+ * Asks the agent in `room` to pause or resume. Resolves false when no agent is in the room or it
+ * does not answer the RPC (older agents), so callers can fall back to removing it.
+ */
+export async function setAgentPaused(
+  room: Room,
+  paused: boolean,
+  fallbackIdentity?: string | null,
+): Promise<boolean> {
+  const agent = findAgentParticipant(room, fallbackIdentity);
+  if (!agent) {
+    return false;
+  }
+  try {
+    await room.localParticipant.performRpc({
+      destinationIdentity: agent.identity,
+      method: AGENT_PAUSE_RPC_METHOD,
+      payload: JSON.stringify({ paused }),
+      responseTimeout: AGENT_RPC_TIMEOUT_MS,
+    });
+    return true;
+  } catch (error) {
+    console.warn('agent pause RPC failed', error);
+    return false;
+  }
+}
@@ -0,0 +1,312 @@
+import type { Translations } from '../i18n';
+import type { AgentStatus, RoomAgentState } from '../types/agent';
+
+/** Why an invite did not end with a talking agent. */
+export type AgentDiagnosis =
+  | { kind: 'no_worker' }
+  | { kind: 'job_failed'; code: string; detail: string | null }
+  | { kind: 'silent' };
+
+export interface AgentJoinPolicy {
+  /** How long to wait for the agent to join, and once joined, to be heard. */
+  joinDeadlineMs: number;
+  /** Invites sent before giving up, the first one included. */
+  maxAttempts: number;
+  /** Pause before the second attempt; doubles for every further one. */
+  retryBaseMs: number;
+  retryMaxMs: number;
+}
+
+export const DEFAULT_AGENT_JOIN_POLICY: AgentJoinPolicy = {
+  joinDeadlineMs: 20000,
+  maxAttempts: 3,
+  retryBaseMs: 2000,
+  retryMaxMs: 15000,
+};
+
+export interface AgentSessionState {
+  status: AgentStatus;
+  /** Localized text shown while `status` is `error`. */
+  message: string | null;
+  diagnosis: AgentDiagnosis | null;
+  /** Invite attempts of the current session; 0 when nobody here invited the agent. */
+  attempt: number;
+  /** When the running invite was accepted and the wait for the agent began. */
+  waitingSince: number | null;
+  joinedAt: number | null;
+  /** The agent was heard, or reported a state past `initializing`. */
+  engaged: boolean;
+  /** A pause is in flight or in effect, so status reports without a dispatch mean paused. */
+  pauseRequested: boolean;
+}
+
+/** What `GET /api/dispatch` says about the agent, reduced to what the controller needs. */
+export interface AgentStatusReport {
+  active: boolean;
+  agentPresent: boolean;
+  /** Localized error, set when the agent's job failed. */
+  errorMessage: string | null;
+  errorCode: string | null;
+  errorDetail: string | null;
+}
+
+export type AgentSessionEvent =
+  | { type: 'reset' }
+  | { type: 'clearError' }
+  /** The locale changed; maps shown messages to their new translation. */
+  | { type: 'translated'; mapping: Record<string, string> }
+  | { type: 'inviteStarted'; attempt: number }
+  | { type: 'inviteAccepted'; agentPresent: boolean; at: number }
+  | { type: 'failed'; message: string | null; diagnosis?: AgentDiagnosis }
+  | { type: 'statusReport'; report: AgentStatusReport; at: number }
+  | { type: 'statusFailed'; message: string }
+  | { type: 'presence'; present: boolean; at: number }
+  | { type: 'engaged' }
+  | { type: 'silent' }
+  | { type: 'shared'; shared: RoomAgentState; stale: boolean; message: string | null }
+  | { type: 'pauseStarted' }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'stopStarted' };
+
+export const initialAgentSessionState: AgentSessionState = {
+  status: 'idle',
+  message: null,
+  diagnosis: null,
+  attempt: 0,
+  waitingSince: null,
+  joinedAt: null,
+  engaged: false,
+  pauseRequested: false,
+};
+
+// Our invite is on its way or waiting for the agent; only the agent or the deadline ends that.
+function awaitingOwnInvite(state: AgentSessionState) {
+  return state.waitingSince !== null || (state.status === 'requesting' && state.attempt > 0);
+}
+
+function transition(state: AgentSessionState, event: AgentSessionEvent): AgentSessionState {
+  switch (event.type) {
+    case 'reset':
+      return initialAgentSessionState;
+    case 'clearError':
+      return {
+        ...state,
+        status: state.status === 'error' ? 'idle' : state.status,
+        message: null,
+        diagnosis: null,
+      };
+    case 'translated':
+      return state.message && state.message in event.mapping
+        ? { ...state, message: event.mapping[state.message] }
+        : state;
+    case 'inviteStarted':
+      return {
+        ...state,
+        status: 'requesting',
+        message: null,
+        diagnosis: null,
+        attempt: event.attempt,
+        waitingSince: null,
+        engaged: false,
+        pauseRequested: false,
+      };
+    case 'inviteAccepted':
+      if (event.agentPresent) {
+        // Reused an agent that is already here; it greeted whoever invited it first.
+        return {
+          ...state,
+          status: 'active',
+          waitingSince: null,
+          joinedAt: state.joinedAt ?? event.at,
+          engaged: true,
+        };
+      }
+      return { ...state, waitingSince: event.at };
+    case 'failed':
+      return {
+        ...state,
+        status: 'error',
+        message: event.message,
+        diagnosis: event.diagnosis ?? null,
+        waitingSince: null,
+        pauseRequested: false,
+      };
+    case 'statusReport': {
+      const { report } = event;
+      if (report.errorMessage) {
+        return {
+          ...state,
+          status: 'error',
+          message: report.errorMessage,
+          diagnosis: {
+            kind: 'job_failed',
+            code: report.errorCode ?? 'dispatch_failed',
+            detail: report.errorDetail,
+          },
+          waitingSince: null,
+        };
+      }
+      if (state.pauseRequested && !report.active) {
+        return { ...state, status: 'paused' };
+      }
+      // A dispatch without the agent in the room is not an answer to a running invite yet.
+      if (awaitingOwnInvite(state) && !report.agentPresent) {
+        return state;
+      }
+      return {
+        ...state,
+        status: report.active || report.agentPresent ? 'active' : 'idle',
+        waitingSince: report.agentPresent ? null : state.waitingSince,
+        joinedAt: report.agentPresent ? state.joinedAt ?? event.at : state.joinedAt,
+      };
+    }
+    case 'statusFailed':
+      // The join deadline decides about a running invite; a lost status poll does not.
+      return awaitingOwnInvite(state)
+        ? state
+        : { ...state, status: 'error', message: event.message };
+    case 'presence':
+      if (event.present) {
+        return {
+          ...state,
+          // A paused agent stays in the room.
+          status: state.status === 'paused' ? 'paused' : 'active',
+          diagnosis: state.diagnosis?.kind === 'silent' ? state.diagnosis : null,
+          waitingSince: null,
+          joinedAt: state.joinedAt ?? event.at,
+        };
+      }
+      return {
+        ...state,
+        status: state.status === 'active' ? 'idle' : state.status,
+        joinedAt: null,
+        engaged: false,
+        diagnosis: state.diagnosis?.kind === 'silent' ? null : state.diagnosis,
+      };
+    case 'engaged':
+      return {
+        ...state,
+        engaged: true,
+        diagnosis: state.diagnosis?.kind === 'silent' ? null : state.diagnosis,
+      };
+    case 'silent':
+      return state.status === 'active' && !state.engaged
+        ? { ...state, diagnosis: { kind: 'silent' } }
+        : state;
+    case 'shared': {
+      const { shared, stale } = event;
+      switch (shared.state) {
+        case 'requesting':
+          return stale || state.status === 'active' ? state : { ...state, status: 'requesting' };
+        case 'active':
+          // The server publishes `active` only once the agent has joined the room.
+          return { ...state, status: 'active', waitingSince: null, pauseRequested: false };
+        case 'paused':
+          return { ...state, status: 'paused', pauseRequested: true };
+        case 'error':
+          return stale ? state : { ...state, status: 'error', message: event.message };
+        default:
+          if (awaitingOwnInvite(state) || (state.status === 'error' && state.diagnosis)) {
+            return { ...state, pauseRequested: false };
+          }
+          return {
+            ...state,
+            status: state.status === 'active' ? 'active' : 'idle',
+            pauseRequested: false,
+          };
+      }
+    }
+    case 'pauseStarted':
+      return { ...state, status: 'disconnecting', pauseRequested: true };
+    case 'paused':
+      return { ...state, status: 'paused', pauseRequested: true };
+    case 'resumed':
+      return { ...state, status: 'active', pauseRequested: false };
+    case 'stopStarted':
+      return { ...state, status: 'disconnecting', pauseRequested: false };
+    default:
+      return state;
+  }
+}
+
+/** All `AgentStatus` changes go through here. */
+export function agentSessionReducer(
+  state: AgentSessionState,
+  event: AgentSessionEvent,
+): AgentSessionState {
+  const next = transition(state, event);
+  if (next === state) {
+    return state;
+  }
+  const pauseSettled = !['paused', 'requesting', 'disconnecting'].includes(next.status);
+  return {
+    ...next,
+    message: next.status === 'error' ? next.message : null,
+    pauseRequested: pauseSettled ? false : next.pauseRequested,
+  };
+}
+
+export function retryDelayMs(policy: AgentJoinPolicy, attempt: number) {
+  return Math.min(policy.retryBaseMs * 2 ** Math.max(attempt - 1, 0), policy.retryMaxMs);
+}
+
+export type JoinDeadlineDecision =
+  | { action: 'retry'; delayMs: number }
+  | { action: 'fail'; diagnosis: AgentDiagnosis };
+
+/** What to do when the agent has not joined by the deadline, given a fresh status report. */
+export function decideOnJoinDeadline(
+  state: AgentSessionState,
+  report: Pick<AgentStatusReport, 'agentPresent' | 'errorCode' | 'errorDetail'>,
+  policy: AgentJoinPolicy,
+): JoinDeadlineDecision {
+  if (report.errorCode) {
+    return {
+      action: 'fail',
+      diagnosis: { kind: 'job_failed', code: report.errorCode, detail: report.errorDetail },
+    };
+  }
+  if (report.agentPresent) {
+    return { action: 'fail', diagnosis: { kind: 'silent' } };
+  }
+  if (state.attempt < policy.maxAttempts) {
+    return { action: 'retry', delayMs: retryDelayMs(policy, state.attempt) };
+  }
+  return { action: 'fail', diagnosis: { kind: 'no_worker' } };
+}
+
+export function formatAgentErrorMessage(
+  translations: Translations,
+  code?: string | null,
+  serverMessage?: string | null,
+  detail?: string | null,
+): string {
+  if (serverMessage?.trim()) {
+    console.warn('Agent dispatch error:', serverMessage.trim());
+  }
+
+  switch (code) {
+    case 'invalid_api_key':
+      return translations.errors.invalidApiKey;
+    case 'permission_denied':
+      return translations.errors.permissionDenied;
+    default: {
+      if (detail && detail.trim()) {
+        return `${translations.errors.agentStartFailed} ${detail.trim()}`;
+      }
+      return translations.errors.agentStartFailed;
+    }
+  }
+}
+
+export function describeAgentDiagnosis(translations: Translations, diagnosis: AgentDiagnosis) {
+  switch (diagnosis.kind) {
+    case 'no_worker':
+      return translations.errors.agentNoWorker;
+    case 'silent':
+      return translations.errors.agentSilent;
+    default:
+      return formatAgentErrorMessage(translations, diagnosis.code, null, diagnosis.detail);
+  }
+}
@@ -0,0 +1,56 @@
+import type { Translations } from '../i18n';
+import { isApiErrorCode } from '../types/api';
+import type { ApiErrorCode } from '../types/api';
+
+export class ApiRequestError extends Error {
+  readonly code: ApiErrorCode | null;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly detail: string | null;
+
+  constructor(
+    message: string,
+    status: number,
+    code: ApiErrorCode | null,
+    retryable = false,
+    detail: string | null = null,
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.code = code;
+    this.retryable = retryable;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Builds a localized error from a failed `/api/*` response. The server's own `message` is only
+ * logged; users see the translation of `code`, or `fallback` when the code is unknown.
+ */
+export async function readApiError(
+  response: Response,
+  translations: Translations,
+  fallback: string,
+): Promise<ApiRequestError> {
+  let body: Record<string, unknown> | null = null;
+  try {
+    const parsed = JSON.parse(await response.text());
+    body = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    body = null;
+  }
+
+  const code = isApiErrorCode(body?.code) ? body.code : null;
+  const detail = typeof body?.detail === 'string' ? body.detail : null;
+  if (body && typeof body.message === 'string') {
+    console.warn(`API error ${response.status} (${code ?? 'unknown'})`, body.message, detail ?? '');
+  }
+  return new ApiRequestError(
+    code ? translations.apiErrors[code] : `${fallback} (${response.status}).`,
+    response.status,
+    code,
+    body?.retryable === true,
+    detail,
+  );
+}
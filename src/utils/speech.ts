@@ -0,0 +1,22 @@
+import type { Locale } from '../i18n';
+
+const SPEECH_LANGUAGES: Record<Locale, string> = { uk: 'uk-UA', en: 'en-US' };
+
+/** Reads `text` aloud with the browser's speech synthesis; does nothing where that is missing. */
+export function speak(text: string, locale: Locale) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    return;
+  }
+  try {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = SPEECH_LANGUAGES[locale];
+    window.speechSynthesis.speak(utterance);
+  } catch (error) {
+    console.warn('speech synthesis failed', error);
+  }
+}
+
+/** True once the page has had a click, tap or key press, which browsers require to play audio. */
+export function hasUserActivation() {
+  return typeof navigator !== 'undefined' && Boolean(navigator.userActivation?.hasBeenActive);
+}
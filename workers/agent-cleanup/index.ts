@@ -0,0 +1,35 @@
+import { cleanupOrphanedAgents } from '../../src/server/livekit/cleanup';
+import type { LiveKitAgentEnv } from '../../src/server/livekit/env';
+
+function assertEnvConfigured(env: LiveKitAgentEnv): asserts env is Required<LiveKitAgentEnv> {
+  if (!env.LIVEKIT_API_KEY || !env.LIVEKIT_API_SECRET || !env.LIVEKIT_URL) {
+    throw new Error('LiveKit environment not configured');
+  }
+  if (!env.ROOM_STATE) {
+    throw new Error('Missing ROOM_STATE binding');
+  }
+}
+
+async function run(env: LiveKitAgentEnv) {
+  assertEnvConfigured(env);
+  const removed = await cleanupOrphanedAgents(env, env.ROOM_STATE);
+  for (const { room, agents, participants } of removed) {
+    console.info(
+      `agent cleanup: room ${room}`,
+      `dispatches [${agents.join(', ')}]`,
+      `participants [${participants.join(', ')}]`,
+    );
+  }
+  console.info(`agent cleanup: ${removed.length} room(s) cleaned`);
+}
+
+/** Cron Trigger worker that removes agents from rooms people have left. */
+export default {
+  async scheduled(_controller: ScheduledController, env: LiveKitAgentEnv, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      run(env).catch((error) => {
+        console.error('agent cleanup failed', error);
+      }),
+    );
+  },
+};